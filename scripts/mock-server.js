@@ -0,0 +1,194 @@
+// Dev stand-in server for SwachhSathi Collector App
+// Speaks the same JSON routes as RestDataStore and keeps everything in memory.
+// Usage: npm run mock-server  (PORT defaults to 8787)
+// MOCK_FAIL_RATE=0.3 fails that share of writes with a 503 to exercise sync retries.
+// Writes are deduplicated by Idempotency-Key header and by record id, like the real backend.
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+const FAIL_RATE = Number(process.env.MOCK_FAIL_RATE) || 0;
+
+const collections = {
+  collection_logs: [],
+  dumping_reports: [],
+  scan_history: [],
+  shift_tracks: [],
+  // Demo directory for ward W12 (matches the README's sample sticker CSV)
+  households: [
+    { id: 'HH-0001', name: 'Sharma Family', house_number: '12A', address: '5, MG Road', ward: 'W12', is_active: true },
+    { id: 'HH-0002', name: 'Iyer Residence', house_number: '14', address: '7, MG Road', ward: 'W12', is_active: true },
+    { id: 'HH-0003', name: 'Khan Household', house_number: '3B', address: '2, Lake View Lane', ward: 'W12', is_active: true },
+    { id: 'HH-0004', name: 'Patel Family', house_number: '21', address: '9, Lake View Lane', ward: 'W12', is_active: false },
+    { id: 'HH-0042', name: 'Reddy Residence', house_number: '42', address: '11, Temple Street', ward: 'W12', is_active: true }
+  ]
+};
+
+// Demo boundaries for VITE_WARD_BOUNDARIES_URL: W12 with W13 just south of it
+const wardBoundaries = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { ward: 'W12', name: 'MG Road' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[[77.600, 12.970], [77.615, 12.970], [77.615, 12.980], [77.600, 12.980], [77.600, 12.970]]]
+      }
+    },
+    {
+      type: 'Feature',
+      properties: { ward: 'W13', name: 'Lake View' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[[77.600, 12.960], [77.615, 12.960], [77.615, 12.970], [77.600, 12.970], [77.600, 12.960]]]
+      }
+    }
+  ]
+};
+
+// Idempotency-Key -> first response sent for it
+const idempotentResponses = new Map();
+
+const send = (res, status, body, extraHeaders = {}) => {
+  res.writeHead(status, {
+    ...extraHeaders,
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*',
+    'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => {
+    try {
+      resolve(data ? JSON.parse(data) : {});
+    } catch (error) {
+      reject(error);
+    }
+  });
+  req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  if (req.method === 'GET' && url.pathname === '/wards.geojson') {
+    send(res, 200, wardBoundaries);
+    return;
+  }
+
+  const [name, id] = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const records = collections[name];
+
+  if (!records) {
+    send(res, 404, { error: `Unknown resource: ${url.pathname}` });
+    return;
+  }
+
+  if (req.method !== 'GET' && Math.random() < FAIL_RATE) {
+    console.log(`${req.method} ${url.pathname} -> simulated failure`);
+    send(res, 503, { error: 'Simulated outage' });
+    return;
+  }
+
+  if (req.method === 'GET') {
+    if (id) {
+      const record = records.find(r => r.id === id);
+      send(res, record ? 200 : 404, record || { error: `No record ${id}` });
+      return;
+    }
+    // Plain equality filters, e.g. ?collector_id=COLL001 or ?ward=W12
+    const filters = [...url.searchParams.entries()];
+    send(res, 200, records.filter(record =>
+      filters.every(([field, value]) => String(record[field]) === value)
+    ));
+    return;
+  }
+
+  if (req.method === 'POST') {
+    const idempotencyKey = req.headers['idempotency-key'];
+    if (idempotencyKey && idempotentResponses.has(idempotencyKey)) {
+      console.log(`POST /${name} -> replay of ${idempotencyKey}`);
+      send(res, 200, idempotentResponses.get(idempotencyKey), { 'Idempotent-Replayed': 'true' });
+      return;
+    }
+
+    try {
+      const body = await readBody(req);
+      const existing = body.id && records.find(r => r.id === body.id);
+      if (existing) {
+        console.log(`POST /${name} -> duplicate id ${body.id}`);
+        send(res, 200, existing, { 'Idempotent-Replayed': 'true' });
+        return;
+      }
+
+      const record = {
+        ...body,
+        id: body.id || `${name}_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+      };
+      records.push(record);
+      if (idempotencyKey) {
+        idempotentResponses.set(idempotencyKey, record);
+      }
+      console.log(`POST /${name} -> ${record.id}`);
+      send(res, 201, record);
+    } catch {
+      send(res, 400, { error: 'Invalid JSON body' });
+    }
+    return;
+  }
+
+  if (req.method === 'PUT' && id) {
+    try {
+      const record = { ...(await readBody(req)), id };
+      const index = records.findIndex(r => r.id === id);
+      if (index >= 0) {
+        records[index] = record;
+      } else {
+        records.push(record);
+      }
+      send(res, 200, record);
+    } catch {
+      send(res, 400, { error: 'Invalid JSON body' });
+    }
+    return;
+  }
+
+  if (req.method === 'PATCH' && id) {
+    const index = records.findIndex(r => r.id === id);
+    if (index < 0) {
+      send(res, 404, { error: `No record ${id}` });
+      return;
+    }
+    try {
+      records[index] = { ...records[index], ...(await readBody(req)), id };
+      console.log(`PATCH /${name}/${id}`);
+      send(res, 200, records[index]);
+    } catch {
+      send(res, 400, { error: 'Invalid JSON body' });
+    }
+    return;
+  }
+
+  if (req.method === 'DELETE') {
+    const ids = id ? [id] : (url.searchParams.get('ids') || '').split(',').filter(Boolean);
+    collections[name] = records.filter(r => !ids.includes(r.id));
+    send(res, 204);
+    return;
+  }
+
+  send(res, 405, { error: `Method ${req.method} not allowed` });
+});
+
+server.listen(PORT, () => {
+  console.log(`SwachhSathi mock server listening on http://localhost:${PORT}`);
+});
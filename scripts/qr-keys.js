@@ -0,0 +1,27 @@
+// Household QR signing helper for SwachhSathi
+// Usage:
+//   node scripts/qr-keys.js generate
+//       Prints a new Ed25519 key pair. Add the public key to VITE_QR_PUBLIC_KEYS; keep the secret offline.
+//   node scripts/qr-keys.js sign <secret-key> <kid> <household-id> <ward> [issue-date]
+//       Prints a signed SWS1 payload for one household (handy for testing a scanner).
+
+import { keygenAsync, signAsync } from '@noble/ed25519';
+
+const toBase64Url = (bytes) => Buffer.from(bytes).toString('base64url');
+
+const [command, ...args] = process.argv.slice(2);
+
+if (command === 'generate') {
+  const { secretKey, publicKey } = await keygenAsync();
+  console.log(`secretKey: ${toBase64Url(secretKey)}`);
+  console.log(`publicKey: ${toBase64Url(publicKey)}`);
+} else if (command === 'sign' && args.length >= 4) {
+  const [secretKey, kid, hid, ward, iat = new Date().toISOString().slice(0, 10)] = args;
+  const payload = { v: 1, kid, hid, ward, iat };
+  const body = `SWS1.${toBase64Url(Buffer.from(JSON.stringify(payload)))}`;
+  const signature = await signAsync(Buffer.from(body), Buffer.from(secretKey, 'base64url'));
+  console.log(`${body}.${toBase64Url(signature)}`);
+} else {
+  console.error('Usage: node scripts/qr-keys.js generate | sign <secret-key> <kid> <household-id> <ward> [issue-date]');
+  process.exit(1);
+}
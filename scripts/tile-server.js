@@ -0,0 +1,50 @@
+// Dev tile server for the SwachhSathi map, so it works without internet
+// Serves TILE_DIR/{z}/{x}/{y}.png when the file exists (e.g. tiles exported for your ward),
+// otherwise a generated placeholder tile showing its grid and z/x/y.
+// Usage: npm run tile-server  (PORT defaults to 8788, TILE_DIR to ./tiles)
+// Then set VITE_MAP_TILE_URL=http://localhost:8788/{z}/{x}/{y}.png
+
+import http from 'node:http';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8788;
+const TILE_DIR = path.resolve(process.env.TILE_DIR || 'tiles');
+
+const send = (res, status, body, contentType) => {
+  res.writeHead(status, {
+    'Content-Type': contentType,
+    'Cache-Control': 'no-cache',
+    'Access-Control-Allow-Origin': '*'
+  });
+  res.end(body);
+};
+
+// A light grid with the tile address, so panning and zooming are easy to follow
+const placeholderTile = (z, x, y) => `<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256" viewBox="0 0 256 256">
+  <rect width="256" height="256" fill="${(x + y) % 2 === 0 ? '#f1f5f2' : '#e8efe9'}"/>
+  <path d="M64 0V256M128 0V256M192 0V256M0 64H256M0 128H256M0 192H256" stroke="#d4ddd6" stroke-width="1"/>
+  <rect x="0.5" y="0.5" width="255" height="255" fill="none" stroke="#9fb3a5"/>
+  <text x="128" y="132" text-anchor="middle" font-family="sans-serif" font-size="16" fill="#5f7566">${z}/${x}/${y}</text>
+</svg>`;
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const match = url.pathname.match(/^\/(\d+)\/(\d+)\/(\d+)\.png$/);
+  if (req.method !== 'GET' || !match) {
+    send(res, 404, 'Not found', 'text/plain');
+    return;
+  }
+
+  const [z, x, y] = match.slice(1).map(Number);
+  try {
+    const tile = await fs.readFile(path.join(TILE_DIR, String(z), String(x), `${y}.png`));
+    send(res, 200, tile, 'image/png');
+  } catch {
+    send(res, 200, placeholderTile(z, x, y), 'image/svg+xml');
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`SwachhSathi tile server listening on http://localhost:${PORT} (tiles from ${TILE_DIR})`);
+});
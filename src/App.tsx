@@ -1,23 +1,59 @@
 import React, { useState, useEffect } from 'react';
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import LoginPage from "./pages/LoginPage";
 import Index from "./pages/Index";
+import AppUpdatePrompt from "@/components/AppUpdatePrompt";
 import { CollectorAPI } from '@/utils/api';
+import { ShiftTracker } from '@/utils/shiftTracker';
+import { WardBoundaries } from '@/utils/wards';
 
 const queryClient = new QueryClient();
 
+// Where a signed-out visitor was headed, so the login can send them back there
+interface RedirectState {
+  from?: string;
+}
+
+const RequireAuth: React.FC<{ collectorId: string | null; children: React.ReactNode }> = ({ collectorId, children }) => {
+  const location = useLocation();
+  if (!collectorId) {
+    const state: RedirectState = { from: `${location.pathname}${location.search}` };
+    return <Navigate to="/login" replace state={state} />;
+  }
+  return <>{children}</>;
+};
+
+const LoginRoute: React.FC<{ collectorId: string | null; onLogin: (collectorId: string) => void }> = ({ collectorId, onLogin }) => {
+  const location = useLocation();
+  if (collectorId) {
+    const from = (location.state as RedirectState | null)?.from;
+    return <Navigate to={from && from !== '/login' ? from : '/dashboard'} replace />;
+  }
+  return <LoginPage onLogin={onLogin} />;
+};
+
 const App = () => {
-  const [currentCollector, setCurrentCollector] = useState<string | null>(null);
+  // Read synchronously so a deep link isn't bounced to the login before the session is checked
+  const [currentCollector, setCurrentCollector] = useState<string | null>(
+    () => CollectorAPI.getCurrentCollector()?.id || null
+  );
+
+  useEffect(() => {
+    // Push anything queued while offline
+    const syncEngine = CollectorAPI.getSyncEngine();
+    syncEngine?.start();
+    return () => syncEngine?.stop();
+  }, []);
 
   useEffect(() => {
-    // Check if collector is already logged in
-    const collector = CollectorAPI.getCurrentCollector();
-    if (collector) {
-      setCurrentCollector(collector.id);
-    }
+    WardBoundaries.load().catch(error => console.warn('Could not read cached ward boundaries:', error));
+    // Offline starts keep using the boundaries cached last time
+    if (!navigator.onLine) return;
+    WardBoundaries.sync().catch(error => console.warn('Could not refresh ward boundaries:', error));
   }, []);
 
   const handleLogin = (collectorId: string) => {
@@ -25,6 +61,8 @@ const App = () => {
   };
 
   const handleLogout = () => {
+    // Signing out ends the shift, so the next collector on this device starts their own
+    ShiftTracker.stop().catch(error => console.warn('Could not end the shift:', error));
     CollectorAPI.logout();
     setCurrentCollector(null);
   };
@@ -34,11 +72,24 @@ const App = () => {
       <TooltipProvider>
         <Toaster />
         <Sonner />
-        {currentCollector ? (
-          <Index collectorId={currentCollector} onLogout={handleLogout} />
-        ) : (
-          <LoginPage onLogin={handleLogin} />
-        )}
+        <AppUpdatePrompt />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Navigate to="/dashboard" replace />} />
+            <Route
+              path="/login"
+              element={<LoginRoute collectorId={currentCollector} onLogin={handleLogin} />}
+            />
+            <Route
+              path="/*"
+              element={
+                <RequireAuth collectorId={currentCollector}>
+                  <Index collectorId={currentCollector} onLogout={handleLogout} />
+                </RequireAuth>
+              }
+            />
+          </Routes>
+        </BrowserRouter>
       </TooltipProvider>
     </QueryClientProvider>
   );
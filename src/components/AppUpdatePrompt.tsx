@@ -0,0 +1,66 @@
+import React, { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { Download } from 'lucide-react';
+
+// Collectors keep the app open through a shift, so look for a new build now and then
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const AppUpdatePrompt: React.FC = () => {
+  const { toast } = useToast();
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker
+  } = useRegisterSW({
+    onRegisteredSW(_url, registration) {
+      if (!registration) return;
+      setInterval(() => {
+        if (navigator.onLine) registration.update();
+      }, UPDATE_CHECK_INTERVAL_MS);
+    },
+    onRegisterError(error) {
+      console.warn('Service worker registration failed:', error);
+    }
+  });
+
+  useEffect(() => {
+    if (!offlineReady) return;
+    toast({
+      title: 'Ready to Work Offline',
+      description: 'The app will now open without signal',
+    });
+    setOfflineReady(false);
+  }, [offlineReady, setOfflineReady, toast]);
+
+  return (
+    <AnimatePresence>
+      {needRefresh && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          className="fixed bottom-24 left-4 right-4 z-50"
+        >
+          <Card className="shadow-xl">
+            <CardContent className="p-4 flex items-center gap-3">
+              <Download className="h-5 w-5 text-primary shrink-0" />
+              <p className="text-sm flex-1">A new version of SwachhSathi is available.</p>
+              <Button variant="ghost" size="sm" onClick={() => setNeedRefresh(false)}>
+                Later
+              </Button>
+              <Button size="sm" onClick={() => updateServiceWorker(true)}>
+                Reload
+              </Button>
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default AppUpdatePrompt;
@@ -0,0 +1,56 @@
+import React, { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import type { MapTileConfig } from '@/utils/mapData';
+import { TileCache } from '@/utils/tileCache';
+
+interface CachedTileLayerProps {
+  tiles: MapTileConfig;
+}
+
+// Serves tiles saved for offline use and fetches the rest as usual
+class OfflineTileLayer extends L.TileLayer {
+  private source: string;
+
+  constructor(source: string, options: L.TileLayerOptions) {
+    super(source, options);
+    this.source = source;
+  }
+
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement('img');
+    tile.alt = '';
+    tile.setAttribute('role', 'presentation');
+    tile.onload = () => {
+      if (tile.src.startsWith('blob:')) URL.revokeObjectURL(tile.src);
+      done(undefined, tile);
+    };
+    tile.onerror = () => done(new Error(`Tile ${coords.z}/${coords.x}/${coords.y} failed to load`), tile);
+
+    TileCache.getTile(coords, this.source)
+      .catch(() => null)
+      .then(blob => {
+        // Leaflet sets src itself when it drops a tile that hasn't loaded yet
+        if (tile.getAttribute('src')) return;
+        tile.src = blob ? URL.createObjectURL(blob) : this.getTileUrl(coords);
+      });
+    return tile;
+  }
+}
+
+const CachedTileLayer: React.FC<CachedTileLayerProps> = ({ tiles }) => {
+  const map = useMap();
+  const { url, attribution, maxZoom } = tiles;
+
+  useEffect(() => {
+    const layer = new OfflineTileLayer(url, { attribution, maxZoom });
+    map.addLayer(layer);
+    return () => {
+      map.removeLayer(layer);
+    };
+  }, [map, url, attribution, maxZoom]);
+
+  return null;
+};
+
+export default CachedTileLayer;
@@ -0,0 +1,359 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { compressImage } from '@/utils/images';
+import HouseholdSummary from '@/components/HouseholdSummary';
+import CollectionRuleWarning from '@/components/CollectionRuleWarning';
+import WardCheckWarning from '@/components/WardCheckWarning';
+import LocationFixPanel from '@/components/LocationFixPanel';
+import { useLocationFix } from '@/hooks/use-location-fix';
+import { CollectorAPI, SEGREGATION_GRADES, type CollectionItem, type SegregationGrade, type WasteType } from '@/utils/api';
+import type { HouseholdLookup } from '@/utils/households';
+import { checkCollectionRules, type OverrideReasonCode, type RuleViolation } from '@/utils/collectionRules';
+import { WardBoundaries } from '@/utils/wards';
+import { toRecordLocation } from '@/utils/location';
+import { Camera, Check, X } from 'lucide-react';
+
+interface CollectionEntryProps {
+  collectorId: string;
+  userId: string;
+  household: HouseholdLookup | null;
+  onLogged: () => void;
+  onClose: () => void;
+  onViewHousehold: () => void;
+}
+
+// Weight and bag count as typed, so a field can be left blank
+type ItemDraft = { weight: string; bags: string };
+
+// Why a typed weight or bag count can't be saved; blank fields are fine
+const getWeightError = (item: ItemDraft): string | null => {
+  const weight = item.weight.trim();
+  return weight && !(Number(weight) > 0) ? 'Weight must be more than 0 kg, or left blank' : null;
+};
+
+const getBagsError = (item: ItemDraft): string | null => {
+  const bags = item.bags.trim();
+  return bags && !(Number.isInteger(Number(bags)) && Number(bags) > 0) ? 'Bags must be a whole number from 1, or left blank' : null;
+};
+
+const wasteTypes: { type: WasteType; icon: string; color: string }[] = [
+  { type: 'Dry', icon: '📄', color: 'waste-dry' },
+  { type: 'Wet', icon: '🍎', color: 'waste-wet' },
+  { type: 'Recyclable', icon: '♻️', color: 'waste-recyclable' },
+  { type: 'Other', icon: '🗑️', color: 'waste-other' }
+];
+
+const CollectionEntry: React.FC<CollectionEntryProps> = ({
+  collectorId,
+  userId,
+  household,
+  onLogged,
+  onClose,
+  onViewHousehold
+}) => {
+  const [items, setItems] = useState<Partial<Record<WasteType, ItemDraft>>>({});
+  const [flagAcknowledged, setFlagAcknowledged] = useState(false);
+  const [ruleViolations, setRuleViolations] = useState<RuleViolation[]>([]);
+  const [grade, setGrade] = useState<SegregationGrade | null>(null);
+  const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+  const locationFix = useLocationFix(true);
+  // Settled once accurate enough, accepted, or skipped (then logged without a location)
+  const isLocationSettled = locationFix.status === 'ready' || locationFix.status === 'skipped';
+  const location = locationFix.status === 'ready' ? locationFix.fix : null;
+
+  // Unknown or deactivated households need an explicit confirmation before logging
+  const isFlagged = household?.status === 'unknown' || household?.status === 'inactive';
+  const selectedTypes = wasteTypes.map(w => w.type).filter(type => items[type]);
+  const hasItemErrors = selectedTypes.some(type => getWeightError(items[type]) || getBagsError(items[type]));
+  const wardCheck = useMemo(
+    () => location ? WardBoundaries.check(location.lat, location.lng, CollectorAPI.getCurrentCollector()?.area) : null,
+    [location]
+  );
+
+  const toggleType = (type: WasteType) => {
+    setItems(prev => {
+      const next = { ...prev };
+      if (next[type]) {
+        delete next[type];
+      } else {
+        next[type] = { weight: '', bags: '1' };
+      }
+      return next;
+    });
+  };
+
+  const updateItem = (type: WasteType, changes: Partial<ItemDraft>) => {
+    setItems(prev => ({ ...prev, [type]: { ...prev[type], ...changes } }));
+  };
+
+  const handlePhotoCapture = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setPhotoPreview(await compressImage(file));
+    } catch (error) {
+      // e.g. a HEIC or corrupt file the browser can't decode; clear the input so it can be picked again
+      e.target.value = '';
+      toast({
+        title: 'Photo Error',
+        description: error instanceof Error ? error.message : 'Unable to process the photo',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const clearPhoto = () => {
+    setPhotoPreview(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const buildItems = (): CollectionItem[] => {
+    return selectedTypes.map(type => {
+      const weight = Number(items[type].weight.trim());
+      const bags = Number(items[type].bags.trim());
+      return {
+        waste_type: type,
+        ...(weight > 0 ? { weight_kg: Math.round(weight * 100) / 100 } : {}),
+        ...(bags > 0 ? { bag_count: bags } : {})
+      };
+    });
+  };
+
+  const handleSubmit = async (overrideReason?: OverrideReasonCode) => {
+    if (selectedTypes.length === 0 || hasItemErrors || !grade || !isLocationSettled) return;
+
+    const timestamp = new Date().toISOString();
+    const collectionItems = buildItems();
+
+    setIsSubmitting(true);
+    try {
+      // Check every collection on the device, not just this collector's
+      if (!overrideReason) {
+        const violations = checkCollectionRules(
+          { user_id: userId, waste_types: selectedTypes, timestamp },
+          await CollectorAPI.getCollectionLogs()
+        );
+        if (violations.length > 0) {
+          setRuleViolations(violations);
+          return;
+        }
+      }
+
+      await CollectorAPI.logCollection({
+        collector_id: collectorId,
+        user_id: userId,
+        waste_type: collectionItems[0].waste_type,
+        items: collectionItems,
+        timestamp,
+        ...toRecordLocation(location, timestamp),
+        ...(wardCheck?.wardId ? { ward_id: wardCheck.wardId } : {}),
+        segregation_grade: grade,
+        photo_base64: photoPreview || undefined,
+        ...(overrideReason ? {
+          override_reason: overrideReason,
+          override_rule_ids: ruleViolations.map(violation => violation.rule.id)
+        } : {})
+      });
+
+      toast({
+        title: 'Collection Logged!',
+        description: `${selectedTypes.join(', ')} waste collection recorded for ${household?.household?.name || `user ${userId}`}`,
+      });
+      onLogged();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to log collection',
+        variant: 'destructive'
+      });
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-card rounded-lg p-6 max-w-sm w-full max-h-[90vh] overflow-y-auto"
+      >
+        <h3 className="text-lg font-semibold mb-4 text-center">Log Collection</h3>
+        <div className="mb-6">
+          {household ? (
+            <HouseholdSummary lookup={household} />
+          ) : (
+            <p className="text-sm text-muted-foreground text-center">
+              User: {userId}
+            </p>
+          )}
+          <Button variant="link" size="sm" className="w-full" onClick={onViewHousehold}>
+            View compliance history
+          </Button>
+          <WardCheckWarning check={wardCheck} />
+        </div>
+
+        {ruleViolations.length > 0 ? (
+          <CollectionRuleWarning
+            violations={ruleViolations}
+            onConfirm={(reason) => handleSubmit(reason)}
+            onCancel={onClose}
+          />
+        ) : isFlagged && !flagAcknowledged ? (
+          <Button variant="outline" className="w-full" onClick={() => setFlagAcknowledged(true)}>
+            Log Collection Anyway
+          </Button>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              {wasteTypes.map((waste) => (
+                <Button
+                  key={waste.type}
+                  onClick={() => toggleType(waste.type)}
+                  className={`h-20 flex-col gap-2 relative ${waste.color} text-white hover:opacity-90 ${
+                    items[waste.type] ? 'ring-2 ring-offset-2 ring-primary' : 'opacity-70'
+                  }`}
+                >
+                  {items[waste.type] && <Check className="absolute top-2 right-2 h-4 w-4" />}
+                  <span className="text-2xl">{waste.icon}</span>
+                  <span className="text-sm font-medium">{waste.type}</span>
+                </Button>
+              ))}
+            </div>
+
+            {selectedTypes.map(type => {
+              const weightError = getWeightError(items[type]);
+              const bagsError = getBagsError(items[type]);
+              return (
+                <div key={type} className="grid grid-cols-[5rem_1fr_1fr] items-end gap-2">
+                  <span className="text-sm font-medium pb-2">{type}</span>
+                  <div className="space-y-1">
+                    <Label htmlFor={`weight-${type}`} className="text-xs">Weight (kg)</Label>
+                    <Input
+                      id={`weight-${type}`}
+                      type="number"
+                      inputMode="decimal"
+                      min="0"
+                      step="0.1"
+                      placeholder="Optional"
+                      value={items[type].weight}
+                      onChange={(e) => updateItem(type, { weight: e.target.value })}
+                      aria-invalid={!!weightError}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`bags-${type}`} className="text-xs">Bags</Label>
+                    <Input
+                      id={`bags-${type}`}
+                      type="number"
+                      inputMode="numeric"
+                      min="1"
+                      step="1"
+                      value={items[type].bags}
+                      onChange={(e) => updateItem(type, { bags: e.target.value })}
+                      aria-invalid={!!bagsError}
+                    />
+                  </div>
+                  {(weightError || bagsError) && (
+                    <p className="col-span-3 text-xs text-destructive">{weightError || bagsError}</p>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="space-y-2">
+              <Label>Segregation</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {SEGREGATION_GRADES.map(option => (
+                  <Button
+                    key={option.grade}
+                    type="button"
+                    variant={grade === option.grade ? 'default' : 'outline'}
+                    className="h-auto flex-col items-start py-2 text-left whitespace-normal"
+                    onClick={() => setGrade(option.grade)}
+                  >
+                    <span className="text-sm font-medium">{option.grade}</span>
+                    <span className="text-xs font-normal opacity-80">{option.description}</span>
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {photoPreview ? (
+              <div className="relative">
+                <img
+                  src={photoPreview}
+                  alt="Segregation evidence"
+                  className="w-full h-32 object-cover rounded-lg"
+                />
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="destructive"
+                  className="absolute top-2 right-2"
+                  onClick={clearPhoto}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full border-dashed"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <Camera className="mr-2 h-4 w-4" />
+                Add Photo (optional)
+              </Button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              onChange={handlePhotoCapture}
+              className="hidden"
+            />
+
+            <LocationFixPanel
+              status={locationFix.status}
+              fix={locationFix.fix}
+              error={locationFix.error}
+              threshold={locationFix.threshold}
+              onAccept={locationFix.accept}
+              onRetry={locationFix.retry}
+              allowSkip
+            />
+
+            <Button
+              className="w-full"
+              disabled={selectedTypes.length === 0 || hasItemErrors || !grade || !isLocationSettled || isSubmitting}
+              onClick={() => handleSubmit()}
+            >
+              {selectedTypes.length > 1 ? `Log ${selectedTypes.length} Waste Types` : 'Log Collection'}
+            </Button>
+          </div>
+        )}
+
+        {ruleViolations.length === 0 && (
+          <Button variant="ghost" className="w-full mt-3" onClick={onClose}>
+            Cancel
+          </Button>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default CollectionEntry;
@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { MapContainer, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import 'leaflet.markercluster';
+import 'leaflet/dist/leaflet.css';
+import 'leaflet.markercluster/dist/MarkerCluster.css';
+import 'leaflet.markercluster/dist/MarkerCluster.Default.css';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import CachedTileLayer from '@/components/CachedTileLayer';
+import OfflineTilesCard from '@/components/OfflineTilesCard';
+import { CollectorAPI, formatTimestamp, type CollectionLog, type IllegalDumpingReport } from '@/utils/api';
+import {
+  REPORT_STATUS_MAP_COLORS,
+  WASTE_TYPE_MAP_COLORS,
+  buildMapPoints,
+  getMapTileConfig,
+  getRecentDateRange,
+  type MapDateRange,
+  type MapPoint
+} from '@/utils/mapData';
+import { Map as MapIcon, X } from 'lucide-react';
+
+interface CollectionMapProps {
+  collectorId: string;
+  onOpenReport: (report: IllegalDumpingReport) => void;
+  onSelectHousehold: (householdId: string) => void;
+  onClose: () => void;
+}
+
+interface ClusterLayerProps {
+  points: MapPoint[];
+  onOpenPoint: (point: MapPoint) => void;
+}
+
+const DATE_PRESETS: { label: string; days: number | null }[] = [
+  { label: 'Today', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'All', days: null }
+];
+
+// Roughly the centre of India, until there are points to fit
+const DEFAULT_CENTER: [number, number] = [20.59, 78.96];
+
+// Collections are dots, reports are squares, both filled with their colour
+const getPointIcon = (point: MapPoint): L.DivIcon => {
+  const shape = point.kind === 'report' ? 'border-radius:3px' : 'border-radius:50%';
+  return L.divIcon({
+    className: '',
+    html: `<span style="display:block;width:18px;height:18px;${shape};background:${point.color};border:2px solid white;box-shadow:0 1px 3px rgba(0,0,0,.4)"></span>`,
+    iconSize: [18, 18],
+    iconAnchor: [9, 9]
+  });
+};
+
+// Built as DOM rather than HTML so record text can't inject markup
+const buildPopup = (point: MapPoint, onOpenPoint: (point: MapPoint) => void): HTMLElement => {
+  const container = document.createElement('div');
+  const title = document.createElement('strong');
+  title.textContent = point.kind === 'report'
+    ? `Report #${point.id?.slice(-6)} · ${point.label}`
+    : `${point.log?.user_id} · ${point.label}`;
+  const time = document.createElement('div');
+  time.textContent = formatTimestamp(point.timestamp);
+  const open = document.createElement('button');
+  open.type = 'button';
+  open.textContent = point.kind === 'report' ? 'Open report' : 'Open household';
+  open.style.cssText = 'margin-top:6px;text-decoration:underline;color:hsl(var(--primary))';
+  open.addEventListener('click', () => onOpenPoint(point));
+  container.append(title, time, open);
+  return container;
+};
+
+const ClusterLayer: React.FC<ClusterLayerProps> = ({ points, onOpenPoint }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const cluster = L.markerClusterGroup({ showCoverageOnHover: false, maxClusterRadius: 50 });
+    points.forEach(point => {
+      const marker = L.marker([point.latitude, point.longitude], { icon: getPointIcon(point), title: point.label });
+      marker.bindPopup(() => buildPopup(point, onOpenPoint));
+      cluster.addLayer(marker);
+    });
+    map.addLayer(cluster);
+    if (points.length > 0) {
+      map.fitBounds(cluster.getBounds(), { padding: [24, 24], maxZoom: 17 });
+    }
+    return () => {
+      map.removeLayer(cluster);
+    };
+  }, [map, points, onOpenPoint]);
+
+  return null;
+};
+
+const CollectionMap: React.FC<CollectionMapProps> = ({ collectorId, onOpenReport, onSelectHousehold, onClose }) => {
+  const [logs, setLogs] = useState<CollectionLog[]>([]);
+  const [reports, setReports] = useState<IllegalDumpingReport[]>([]);
+  const [range, setRange] = useState<MapDateRange>(() => getRecentDateRange(7));
+  const [map, setMap] = useState<L.Map | null>(null);
+  const tiles = getMapTileConfig();
+  const ward = CollectorAPI.getCurrentCollector()?.area || '';
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [collectorLogs, collectorReports] = await Promise.all([
+          CollectorAPI.getCollectionLogs(collectorId),
+          CollectorAPI.getDumpingReports(collectorId)
+        ]);
+        setLogs(collectorLogs);
+        setReports(collectorReports);
+      } catch (error) {
+        console.error('Error loading map data:', error);
+      }
+    };
+    load();
+  }, [collectorId]);
+
+  const points = useMemo(() => buildMapPoints(logs, reports, range), [logs, reports, range]);
+  const collectionCount = points.filter(point => point.kind === 'collection').length;
+
+  const openPoint = useCallback((point: MapPoint) => {
+    if (point.report) {
+      onOpenReport(point.report);
+    } else if (point.log) {
+      onSelectHousehold(point.log.user_id);
+    }
+  }, [onOpenReport, onSelectHousehold]);
+
+  const applyPreset = (days: number | null) => {
+    setRange(days === null ? { from: '', to: '' } : getRecentDateRange(days));
+  };
+
+  return (
+    <div className="space-y-6 p-4 pb-24">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <MapIcon className="h-5 w-5 text-primary" />
+                Map
+              </CardTitle>
+              <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-4 gap-2">
+              {DATE_PRESETS.map(preset => {
+                const presetRange = preset.days === null ? { from: '', to: '' } : getRecentDateRange(preset.days);
+                const isActive = presetRange.from === range.from && presetRange.to === range.to;
+                return (
+                  <Button
+                    key={preset.label}
+                    size="sm"
+                    variant={isActive ? 'default' : 'outline'}
+                    onClick={() => applyPreset(preset.days)}
+                  >
+                    {preset.label}
+                  </Button>
+                );
+              })}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="date"
+                aria-label="From"
+                value={range.from}
+                max={range.to || undefined}
+                onChange={(e) => setRange(prev => ({ ...prev, from: e.target.value }))}
+              />
+              <Input
+                type="date"
+                aria-label="To"
+                value={range.to}
+                min={range.from || undefined}
+                onChange={(e) => setRange(prev => ({ ...prev, to: e.target.value }))}
+              />
+            </div>
+
+            {/* z-0 keeps Leaflet's panes under the header and bottom navigation */}
+            <div className="relative z-0 h-[55vh] rounded-lg overflow-hidden border">
+              <MapContainer center={DEFAULT_CENTER} zoom={5} maxZoom={tiles.maxZoom} className="h-full w-full" ref={setMap}>
+                <CachedTileLayer tiles={tiles} />
+                <ClusterLayer points={points} onOpenPoint={openPoint} />
+              </MapContainer>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {collectionCount} collections · {points.length - collectionCount} reports
+              {points.length === 0 && ' in this period (records without a location are not shown)'}
+            </p>
+
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+              {Object.entries(WASTE_TYPE_MAP_COLORS).map(([type, color]) => (
+                <span key={type} className="flex items-center gap-1">
+                  <span className="inline-block h-3 w-3 rounded-full" style={{ background: color }} />
+                  {type}
+                </span>
+              ))}
+              {Object.entries(REPORT_STATUS_MAP_COLORS).map(([status, color]) => (
+                <span key={status} className="flex items-center gap-1">
+                  <span className="inline-block h-3 w-3 rounded-sm" style={{ background: color }} />
+                  {status}
+                </span>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+      >
+        <OfflineTilesCard map={map} tiles={tiles} ward={ward} />
+      </motion.div>
+    </div>
+  );
+};
+
+export default CollectionMap;
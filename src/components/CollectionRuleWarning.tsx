@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { formatTimestamp } from '@/utils/api';
+import { OVERRIDE_REASONS, type OverrideReasonCode, type RuleViolation } from '@/utils/collectionRules';
+import { AlertTriangle } from 'lucide-react';
+
+interface CollectionRuleWarningProps {
+  violations: RuleViolation[];
+  onConfirm: (reason: OverrideReasonCode) => void;
+  onCancel: () => void;
+}
+
+const CollectionRuleWarning: React.FC<CollectionRuleWarningProps> = ({ violations, onConfirm, onCancel }) => {
+  const [reason, setReason] = useState<OverrideReasonCode | null>(null);
+  const lastCollection = violations
+    .flatMap(v => v.existing)
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-2 p-3 bg-warning/10 text-warning rounded-lg text-sm">
+        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+        <div>
+          {violations.map(violation => (
+            <p key={`${violation.rule.id}-${violation.message}`} className="font-medium">{violation.message}</p>
+          ))}
+          {lastCollection && (
+            <p className="text-xs opacity-80">Last logged {formatTimestamp(lastCollection.timestamp)}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Log again anyway? Choose a reason</Label>
+        <RadioGroup value={reason || ''} onValueChange={(value) => setReason(value as OverrideReasonCode)}>
+          {OVERRIDE_REASONS.map(option => (
+            <div key={option.code} className="flex items-center gap-2">
+              <RadioGroupItem value={option.code} id={`reason-${option.code}`} />
+              <Label htmlFor={`reason-${option.code}`} className="font-normal">{option.label}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+
+      <div className="flex gap-3">
+        <Button variant="outline" className="flex-1" onClick={onCancel}>
+          Don't Log
+        </Button>
+        <Button className="flex-1" disabled={!reason} onClick={() => reason && onConfirm(reason)}>
+          Log Again
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CollectionRuleWarning;
@@ -2,26 +2,67 @@ import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { CollectorAPI, type CollectionLog, type IllegalDumpingReport, getWasteTypeColor, formatTimestamp } from '@/utils/api';
-import { Scan, AlertTriangle, Clock, MapPin, Trash2, CheckCircle, XCircle, Timer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import HouseholdDirectoryCard from '@/components/HouseholdDirectoryCard';
+import ShiftTrackerCard from '@/components/ShiftTrackerCard';
+import { useSyncStatus } from '@/hooks/use-sync-status';
+import { CollectorAPI, type CollectionLog, type IllegalDumpingReport, getWasteTypeColor, getCollectionItems, getCollectionWeight, getLatestStatusChange, formatStatusChange, formatTimestamp } from '@/utils/api';
+import { ReportDrafts, getDraftPhotoCount, type ReportDraft } from '@/utils/reportDrafts';
+import { hasLocation } from '@/utils/location';
+import { Scan, AlertTriangle, Clock, MapPin, Trash2, CheckCircle, XCircle, Timer, CloudOff, Wrench, ChevronRight, FileText, Camera } from 'lucide-react';
 
 interface DashboardProps {
   collectorId: string;
+  onSelectHousehold: (householdId: string) => void;
+  onOpenReport: (report: IllegalDumpingReport) => void; // Cleanup of an assigned report
+  onViewReport: (report: IllegalDumpingReport) => void;
+  onResumeDraft: (draft: ReportDraft) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ collectorId }) => {
+const Dashboard: React.FC<DashboardProps> = ({ collectorId, onSelectHousehold, onOpenReport, onViewReport, onResumeDraft }) => {
   const [recentLogs, setRecentLogs] = useState<CollectionLog[]>([]);
   const [recentReports, setRecentReports] = useState<IllegalDumpingReport[]>([]);
+  const [cleanupJobs, setCleanupJobs] = useState<IllegalDumpingReport[]>([]);
+  const [drafts, setDrafts] = useState<ReportDraft[]>([]);
   const [stats, setStats] = useState({
     totalScans: 0,
     totalReports: 0,
     todayScans: 0,
-    pendingReports: 0
+    pendingReports: 0,
+    todayWeight: 0,
+    totalWeight: 0
   });
 
+  const { state: syncState } = useSyncStatus();
+
+  // Reload after each sync so supervisor decisions pulled from the server show up
   useEffect(() => {
+    setDrafts(ReportDrafts.list(collectorId));
     loadData();
-  }, [collectorId]);
+    loadCleanupJobs();
+  }, [collectorId, syncState?.lastSuccessAt]);
+
+  const discardDraft = async (draft: ReportDraft) => {
+    try {
+      await ReportDrafts.remove(draft.id);
+    } catch (error) {
+      console.error('Error discarding draft:', error);
+    }
+    setDrafts(ReportDrafts.list(collectorId));
+  };
+
+  // Reports assigned to this collector's crew, which may have been filed by someone else
+  const loadCleanupJobs = async () => {
+    try {
+      const reports = await CollectorAPI.getAllReports();
+      setCleanupJobs(reports.filter(report =>
+        report.assigned_crew === collectorId &&
+        (report.status === 'Assigned' || report.status === 'Cleanup In Progress')
+      ));
+    } catch (error) {
+      console.error('Error loading cleanup jobs:', error);
+    }
+  };
 
   const loadData = async () => {
     try {
@@ -46,9 +87,9 @@ const Dashboard: React.FC<DashboardProps> = ({ collectorId }) => {
       const today = new Date();
       today.setHours(0, 0, 0, 0);
       
-      const todayScans = logs.filter(log => 
+      const todayLogs = logs.filter(log => 
         new Date(log.timestamp) >= today
-      ).length;
+      );
 
       const pendingReports = reports.filter(report => 
         report.status === 'Pending'
@@ -57,8 +98,10 @@ const Dashboard: React.FC<DashboardProps> = ({ collectorId }) => {
       setStats({
         totalScans: logs.length,
         totalReports: reports.length,
-        todayScans,
-        pendingReports
+        todayScans: todayLogs.length,
+        pendingReports,
+        todayWeight: getCollectionWeight(todayLogs),
+        totalWeight: getCollectionWeight(logs)
       });
     } catch (error) {
       console.error('Error loading dashboard data:', error);
@@ -68,9 +111,13 @@ const Dashboard: React.FC<DashboardProps> = ({ collectorId }) => {
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'Verified':
+      case 'Resolved':
         return <CheckCircle className="h-4 w-4 text-success" />;
       case 'Rejected':
         return <XCircle className="h-4 w-4 text-destructive" />;
+      case 'Assigned':
+      case 'Cleanup In Progress':
+        return <Wrench className="h-4 w-4 text-primary" />;
       default:
         return <Timer className="h-4 w-4 text-warning" />;
     }
@@ -79,9 +126,13 @@ const Dashboard: React.FC<DashboardProps> = ({ collectorId }) => {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'Verified':
+      case 'Resolved':
         return 'bg-success text-success-foreground';
       case 'Rejected':
         return 'bg-destructive text-destructive-foreground';
+      case 'Assigned':
+      case 'Cleanup In Progress':
+        return 'bg-primary text-primary-foreground';
       default:
         return 'bg-warning text-warning-foreground';
     }
@@ -89,6 +140,14 @@ const Dashboard: React.FC<DashboardProps> = ({ collectorId }) => {
 
   return (
     <div className="space-y-6 p-4 pb-20">
+      {/* Shift route recording */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <ShiftTrackerCard collectorId={collectorId} />
+      </motion.div>
+
       {/* Stats Cards */}
       <div className="grid grid-cols-2 gap-4">
         <motion.div
@@ -102,6 +161,9 @@ const Dashboard: React.FC<DashboardProps> = ({ collectorId }) => {
                 <div>
                   <p className="text-sm text-muted-foreground">Today's Scans</p>
                   <p className="text-2xl font-bold text-primary">{stats.todayScans}</p>
+                  {stats.todayWeight > 0 && (
+                    <p className="text-xs text-muted-foreground">{stats.todayWeight} kg</p>
+                  )}
                 </div>
                 <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
                   <Scan className="h-6 w-6 text-primary" />
@@ -122,6 +184,9 @@ const Dashboard: React.FC<DashboardProps> = ({ collectorId }) => {
                 <div>
                   <p className="text-sm text-muted-foreground">Total Scans</p>
                   <p className="text-2xl font-bold text-success">{stats.totalScans}</p>
+                  {stats.totalWeight > 0 && (
+                    <p className="text-xs text-muted-foreground">{stats.totalWeight} kg</p>
+                  )}
                 </div>
                 <div className="w-12 h-12 bg-success/10 rounded-full flex items-center justify-center">
                   <Trash2 className="h-6 w-6 text-success" />
@@ -172,6 +237,15 @@ const Dashboard: React.FC<DashboardProps> = ({ collectorId }) => {
         </motion.div>
       </div>
 
+      {/* Household Directory */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.45 }}
+      >
+        <HouseholdDirectoryCard onSelectHousehold={onSelectHousehold} />
+      </motion.div>
+
       {/* Recent Collection Logs */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -202,18 +276,29 @@ const Dashboard: React.FC<DashboardProps> = ({ collectorId }) => {
                       </div>
                       <div>
                         <p className="font-medium">User: {log.user_id}</p>
+                        {log.segregation_grade && (
+                          <p className="text-xs text-muted-foreground">{log.segregation_grade}</p>
+                        )}
                         <div className="flex items-center gap-2 text-sm text-muted-foreground">
                           <Clock className="h-3 w-3" />
                           {formatTimestamp(log.timestamp)}
+                          {log.synced === false && <CloudOff className="h-3 w-3" aria-label="Not synced yet" />}
                         </div>
                       </div>
                     </div>
                     
-                    <Badge 
-                      className={`${getWasteTypeColor(log.waste_type)} text-white`}
-                    >
-                      {log.waste_type}
-                    </Badge>
+                    <div className="flex flex-wrap justify-end gap-1">
+                      {getCollectionItems(log).map(item => (
+                        <Badge 
+                          key={item.waste_type}
+                          className={`${getWasteTypeColor(item.waste_type)} text-white`}
+                        >
+                          {item.waste_type}
+                          {item.weight_kg ? ` · ${item.weight_kg} kg` : ''}
+                          {item.bag_count > 1 ? ` · ${item.bag_count} bags` : ''}
+                        </Badge>
+                      ))}
+                    </div>
                   </motion.div>
                 ))}
               </div>
@@ -228,6 +313,93 @@ const Dashboard: React.FC<DashboardProps> = ({ collectorId }) => {
         </Card>
       </motion.div>
 
+      {/* Cleanup jobs for this collector's crew */}
+      {cleanupJobs.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.55 }}
+        >
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Wrench className="h-5 w-5 text-primary" />
+                Cleanup Jobs
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {cleanupJobs.map(report => (
+                <Button
+                  key={report.id}
+                  variant="ghost"
+                  className="w-full justify-between h-auto py-3 bg-muted/50"
+                  onClick={() => onOpenReport(report)}
+                >
+                  <span className="text-left min-w-0">
+                    <span className="block font-medium">Report #{report.id?.slice(-6)}</span>
+                    <span className="block text-xs text-muted-foreground truncate">
+                      {report.status} · {formatTimestamp(report.timestamp)}
+                    </span>
+                  </span>
+                  <ChevronRight className="h-4 w-4 shrink-0" />
+                </Button>
+              ))}
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+
+      {/* Unfinished dumping reports saved on this device */}
+      {drafts.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.55 }}
+        >
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5 text-primary" />
+                Drafts
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {drafts.map(draft => (
+                <div key={draft.id} className="flex items-center gap-2 p-3 bg-muted/50 rounded-lg">
+                  <div className="min-w-0 flex-1">
+                    <span className="block font-medium truncate">
+                      {draft.category || draft.description || 'Dumping report'}
+                    </span>
+                    <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <span>{formatTimestamp(draft.updated_at)}</span>
+                      {getDraftPhotoCount(draft) > 0 && (
+                        <span className="flex items-center gap-1">
+                          <Camera className="h-3 w-3" />
+                          {getDraftPhotoCount(draft)}
+                        </span>
+                      )}
+                      {draft.location && <MapPin className="h-3 w-3" aria-label="Location captured" />}
+                    </span>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => onResumeDraft(draft)}>
+                    Resume
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => discardDraft(draft)}
+                    aria-label="Discard draft"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+
       {/* Recent Dumping Reports */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -250,12 +422,14 @@ const Dashboard: React.FC<DashboardProps> = ({ collectorId }) => {
                     initial={{ opacity: 0, x: -20 }}
                     animate={{ opacity: 1, x: 0 }}
                     transition={{ delay: 0.1 * index }}
-                    className="p-3 bg-muted/50 rounded-lg"
+                    className="p-3 bg-muted/50 rounded-lg cursor-pointer hover:bg-muted"
+                    onClick={() => onViewReport(report)}
                   >
                     <div className="flex items-start justify-between mb-2">
                       <div className="flex items-center gap-2">
                         {getStatusIcon(report.status)}
                         <span className="font-medium">Report #{report.id?.slice(-6)}</span>
+                        {report.synced === false && <CloudOff className="h-3 w-3 text-muted-foreground" aria-label="Not synced yet" />}
                       </div>
                       <Badge className={getStatusColor(report.status)}>
                         {report.status}
@@ -267,6 +441,12 @@ const Dashboard: React.FC<DashboardProps> = ({ collectorId }) => {
                         {report.description}
                       </p>
                     )}
+
+                    {getLatestStatusChange(report) && (
+                      <p className="text-xs text-muted-foreground mb-2">
+                        {formatStatusChange(getLatestStatusChange(report))}
+                      </p>
+                    )}
                     
                     <div className="flex items-center justify-between text-xs text-muted-foreground">
                       <div className="flex items-center gap-1">
@@ -275,7 +455,9 @@ const Dashboard: React.FC<DashboardProps> = ({ collectorId }) => {
                       </div>
                       <div className="flex items-center gap-1">
                         <MapPin className="h-3 w-3" />
-                        {report.latitude.toFixed(4)}, {report.longitude.toFixed(4)}
+                        {hasLocation(report.latitude, report.longitude)
+                          ? `${report.latitude.toFixed(4)}, ${report.longitude.toFixed(4)}`
+                          : 'No location'}
                       </div>
                     </div>
                   </motion.div>
@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import HouseholdSummary from '@/components/HouseholdSummary';
+import {
+  CollectorAPI,
+  SEGREGATION_GRADES,
+  getCollectionItems,
+  getWasteTypeColor,
+  formatTimestamp,
+  type CollectionLog
+} from '@/utils/api';
+import { HouseholdRegistry, type HouseholdLookup } from '@/utils/households';
+import {
+  computeHouseholdCompliance,
+  getComplianceColor,
+  DEFAULT_COMPLIANCE_OPTIONS,
+  type HouseholdCompliance
+} from '@/utils/compliance';
+import { Home, X, TrendingUp, TrendingDown, Minus, CalendarX, Clock } from 'lucide-react';
+
+interface HouseholdDetailProps {
+  householdId: string;
+  onClose: () => void;
+}
+
+const trendLabels: Record<HouseholdCompliance['trend'], string> = {
+  improving: 'Improving',
+  declining: 'Declining',
+  steady: 'Steady',
+  insufficient: 'Not enough data'
+};
+
+const HouseholdDetail: React.FC<HouseholdDetailProps> = ({ householdId, onClose }) => {
+  const [lookup, setLookup] = useState<HouseholdLookup | null>(null);
+  const [compliance, setCompliance] = useState<HouseholdCompliance | null>(null);
+  const [history, setHistory] = useState<CollectionLog[]>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [householdLookup, logs] = await Promise.all([
+          HouseholdRegistry.lookup(householdId),
+          CollectorAPI.getCollectionLogs()
+        ]);
+        setLookup(householdLookup);
+        setCompliance(computeHouseholdCompliance(householdId, logs));
+        setHistory(logs
+          .filter(log => log.user_id === householdId)
+          .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()));
+      } catch (error) {
+        console.error('Error loading household:', error);
+      }
+    };
+    load();
+  }, [householdId]);
+
+  const TrendIcon = compliance?.trend === 'improving' ? TrendingUp
+    : compliance?.trend === 'declining' ? TrendingDown
+    : Minus;
+
+  return (
+    <div className="space-y-6 p-4 pb-24">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Home className="h-5 w-5 text-primary" />
+                Household
+              </CardTitle>
+              <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {lookup && <HouseholdSummary lookup={{ ...lookup, recentCollections: [] }} />}
+
+            {compliance && (
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div className="p-3 bg-muted/50 rounded-lg">
+                  <p className={`text-2xl font-bold ${getComplianceColor(compliance.score)}`}>
+                    {compliance.score ?? '—'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">Score</p>
+                </div>
+                <div className="p-3 bg-muted/50 rounded-lg">
+                  <p className="text-2xl font-bold">{compliance.daysWithoutCollection.length}</p>
+                  <p className="text-xs text-muted-foreground">Days without pickup</p>
+                </div>
+                <div className="p-3 bg-muted/50 rounded-lg flex flex-col items-center justify-center">
+                  <TrendIcon className="h-6 w-6" />
+                  <p className="text-xs text-muted-foreground">{trendLabels[compliance.trend]}</p>
+                </div>
+              </div>
+            )}
+
+            {compliance && (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  Last {DEFAULT_COMPLIANCE_OPTIONS.windowDays} days · {compliance.collections} collections
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {SEGREGATION_GRADES.map(({ grade }) => (
+                    <Badge key={grade} variant="outline" className="font-normal">
+                      {grade}: {compliance.gradeCounts[grade]}
+                    </Badge>
+                  ))}
+                </div>
+                {compliance.daysWithoutCollection.length > 0 && (
+                  <div className="flex items-start gap-2 text-sm text-muted-foreground">
+                    <CalendarX className="h-4 w-4 mt-0.5 shrink-0" />
+                    <span>No pickup: {compliance.daysWithoutCollection.slice(-5).join(', ')}
+                      {compliance.daysWithoutCollection.length > 5 && ` and ${compliance.daysWithoutCollection.length - 5} more`}
+                    </span>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+      >
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5 text-primary" />
+              Collection History
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {history.length > 0 ? (
+              <div className="space-y-3">
+                {history.map(log => (
+                  <div key={log.id} className="p-3 bg-muted/50 rounded-lg space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span>{formatTimestamp(log.timestamp)}</span>
+                      {log.segregation_grade && (
+                        <span className="text-muted-foreground">{log.segregation_grade}</span>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {getCollectionItems(log).map(item => (
+                        <Badge key={item.waste_type} className={`${getWasteTypeColor(item.waste_type)} text-white font-normal`}>
+                          {item.waste_type}
+                          {item.weight_kg ? ` · ${item.weight_kg} kg` : ''}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center py-8 text-muted-foreground">No collections recorded on this device</p>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+};
+
+export default HouseholdDetail;
@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { CollectorAPI, formatTimestamp, type Household } from '@/utils/api';
+import { HouseholdRegistry } from '@/utils/households';
+import { WardBoundaries } from '@/utils/wards';
+import { Home, RefreshCw, Search, ChevronRight } from 'lucide-react';
+
+interface HouseholdDirectoryCardProps {
+  onSelectHousehold: (householdId: string) => void;
+}
+
+const SEARCH_RESULT_LIMIT = 5;
+
+const HouseholdDirectoryCard: React.FC<HouseholdDirectoryCardProps> = ({ onSelectHousehold }) => {
+  const [ward, setWard] = useState(() => CollectorAPI.getCurrentCollector()?.area || '');
+  const [count, setCount] = useState(0);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Household[]>([]);
+  const { toast } = useToast();
+
+  const refresh = useCallback(async (wardId: string) => {
+    if (!wardId) return;
+    const households = await HouseholdRegistry.getHouseholds(wardId);
+    setCount(households.length);
+    setLastSyncedAt(HouseholdRegistry.getLastSyncedAt(wardId));
+  }, []);
+
+  useEffect(() => {
+    refresh(ward);
+  }, [ward, refresh]);
+
+  useEffect(() => {
+    HouseholdRegistry.search(query)
+      .then(matches => setResults(matches.slice(0, SEARCH_RESULT_LIMIT)))
+      .catch(error => console.error('Household search failed:', error));
+  }, [query, lastSyncedAt]);
+
+  const handleSync = async () => {
+    const wardId = ward.trim();
+    if (!wardId) return;
+
+    setIsSyncing(true);
+    try {
+      const downloaded = await HouseholdRegistry.syncWard(wardId);
+      CollectorAPI.setCollectorArea(wardId);
+      // Boundaries are for the out-of-ward warnings; the directory is still usable without them
+      await WardBoundaries.sync().catch(error => console.warn('Could not refresh ward boundaries:', error));
+      await refresh(wardId);
+      toast({
+        title: 'Directory Updated',
+        description: `${downloaded} households downloaded for ward ${wardId}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Directory Sync Failed',
+        description: error instanceof Error ? error.message : 'Unable to download the household directory',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Home className="h-5 w-5 text-primary" />
+          Household Directory
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Ward ID"
+            value={ward}
+            onChange={(e) => setWard(e.target.value)}
+          />
+          <Button onClick={handleSync} disabled={isSyncing || !ward.trim()}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+            Sync
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {lastSyncedAt
+            ? `${count} households cached · updated ${formatTimestamp(lastSyncedAt)}`
+            : 'Not downloaded yet'}
+        </p>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by name, house number or ID"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        {query.trim() && (
+          <div className="space-y-1">
+            {results.map(household => (
+              <Button
+                key={household.id}
+                variant="ghost"
+                className="w-full justify-between h-auto py-2"
+                onClick={() => onSelectHousehold(household.id)}
+              >
+                <span className="text-left min-w-0">
+                  <span className="block truncate">{household.name}</span>
+                  <span className="block text-xs text-muted-foreground truncate">
+                    {household.house_number && `${household.house_number} · `}{household.id}
+                  </span>
+                </span>
+                <ChevronRight className="h-4 w-4 shrink-0" />
+              </Button>
+            ))}
+            {results.length === 0 && (
+              <Button
+                variant="ghost"
+                className="w-full justify-between"
+                onClick={() => onSelectHousehold(query.trim())}
+              >
+                Open household {query.trim()}
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HouseholdDirectoryCard;
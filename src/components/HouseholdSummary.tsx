@@ -0,0 +1,73 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { getWasteTypeColor, getCollectionItems, formatTimestamp } from '@/utils/api';
+import type { HouseholdLookup } from '@/utils/households';
+import { Home, MapPin, AlertTriangle, Ban, HelpCircle } from 'lucide-react';
+
+interface HouseholdSummaryProps {
+  lookup: HouseholdLookup;
+}
+
+const HouseholdSummary: React.FC<HouseholdSummaryProps> = ({ lookup }) => {
+  const { household, status, recentCollections } = lookup;
+
+  return (
+    <div className="space-y-3">
+      {household ? (
+        <div className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg text-left">
+          <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center shrink-0">
+            <Home className="h-5 w-5 text-primary" />
+          </div>
+          <div className="min-w-0">
+            <p className="font-medium truncate">{household.name}</p>
+            <div className="flex items-center gap-1 text-sm text-muted-foreground">
+              <MapPin className="h-3 w-3 shrink-0" />
+              <span className="truncate">
+                {household.house_number && `${household.house_number}, `}{household.address}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">Ward {household.ward} · {household.id}</p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center">Household: {lookup.householdId}</p>
+      )}
+
+      {status === 'inactive' && (
+        <div className="flex items-start gap-2 p-3 bg-destructive/10 text-destructive rounded-lg text-sm text-left">
+          <Ban className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>This household is deactivated in the ward directory.</span>
+        </div>
+      )}
+
+      {status === 'unknown' && (
+        <div className="flex items-start gap-2 p-3 bg-warning/10 text-warning rounded-lg text-sm text-left">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>This household is not in the ward directory.</span>
+        </div>
+      )}
+
+      {status === 'unverified' && (
+        <div className="flex items-start gap-2 p-3 bg-muted text-muted-foreground rounded-lg text-sm text-left">
+          <HelpCircle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>Household directory not downloaded yet; this household can't be checked.</span>
+        </div>
+      )}
+
+      {recentCollections.length > 0 && (
+        <div className="text-left">
+          <p className="text-xs text-muted-foreground mb-2">Recent collections</p>
+          <div className="flex flex-wrap gap-2">
+            {recentCollections.map(log => (
+              <Badge key={log.id} className={`${getWasteTypeColor(log.waste_type)} text-white font-normal`}>
+                {getCollectionItems(log).map(item => item.waste_type).join(' + ')} · {formatTimestamp(log.timestamp)}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HouseholdSummary;
@@ -0,0 +1,95 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import type { LocationFixStatus } from '@/hooks/use-location-fix';
+import { formatAccuracy, formatCoordinates, type LocationError, type LocationFix } from '@/utils/location';
+import { AlertTriangle, CheckCircle, MapPin, MapPinOff, RefreshCw } from 'lucide-react';
+
+interface LocationFixPanelProps {
+  status: LocationFixStatus;
+  fix: LocationFix | null;
+  error: LocationError | null;
+  threshold: number;
+  onAccept: () => void;
+  onRetry: () => void;
+  allowSkip?: boolean; // Offer to go on without a location
+}
+
+const LocationFixPanel: React.FC<LocationFixPanelProps> = ({
+  status,
+  fix,
+  error,
+  threshold,
+  onAccept,
+  onRetry,
+  allowSkip = false
+}) => {
+  if (status === 'idle') return null;
+
+  if (status === 'ready' && fix) {
+    return (
+      <div className="flex items-center gap-2 p-3 bg-success/10 text-success rounded-lg text-sm">
+        <CheckCircle className="h-4 w-4 shrink-0" />
+        <span className="font-medium">
+          Location captured: {formatCoordinates(fix.lat, fix.lng)}
+          {fix.accuracy !== undefined && ` (${formatAccuracy(fix.accuracy)})`}
+        </span>
+      </div>
+    );
+  }
+
+  if (status === 'skipped') {
+    return (
+      <div className="flex items-center gap-2 p-3 bg-muted text-muted-foreground rounded-lg text-sm">
+        <MapPinOff className="h-4 w-4 shrink-0" />
+        <span className="flex-1">No location will be saved.</span>
+        <Button variant="ghost" size="sm" onClick={onRetry}>Try Again</Button>
+      </div>
+    );
+  }
+
+  if (status === 'waiting' && fix) {
+    return (
+      <div className="space-y-2 p-3 bg-warning/10 text-warning rounded-lg text-sm">
+        <div className="flex items-start gap-2">
+          <RefreshCw className="h-4 w-4 mt-0.5 shrink-0 animate-spin" />
+          <span>
+            Waiting for a better fix: {formatAccuracy(fix.accuracy)}, needs {formatAccuracy(threshold)} or better.
+            Moving into the open helps.
+          </span>
+        </div>
+        <Button variant="outline" size="sm" className="w-full" onClick={onAccept}>
+          Use This Fix ({formatAccuracy(fix.accuracy)})
+        </Button>
+      </div>
+    );
+  }
+
+  if (status === 'unavailable') {
+    return (
+      <div className="space-y-2 p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+        <div className="flex items-start gap-2">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>{error?.message || 'Location is unavailable.'}</span>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="flex-1" onClick={onRetry}>Retry</Button>
+          {allowSkip && (
+            <Button variant="ghost" size="sm" className="flex-1" onClick={onAccept}>Continue Without</Button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 p-3 bg-muted text-muted-foreground rounded-lg text-sm">
+      <MapPin className="h-4 w-4 shrink-0 animate-pulse" />
+      <span className="flex-1">Getting your location…</span>
+      {allowSkip && (
+        <Button variant="ghost" size="sm" onClick={onAccept}>Skip</Button>
+      )}
+    </div>
+  );
+};
+
+export default LocationFixPanel;
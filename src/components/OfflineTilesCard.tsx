@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import type L from 'leaflet';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { formatTimestamp } from '@/utils/api';
+import { formatBytes } from '@/utils/images';
+import type { MapTileConfig } from '@/utils/mapData';
+import {
+  BULK_DOWNLOAD_BLOCKED_MESSAGE,
+  MAX_TILE_DOWNLOAD,
+  TileCache,
+  countTiles,
+  isBulkDownloadAllowed,
+  type TileBounds,
+  type TileCacheInfo,
+  type TileCacheUsage,
+  type TileDownloadProgress
+} from '@/utils/tileCache';
+import { CloudDownload, Trash2 } from 'lucide-react';
+
+interface OfflineTilesCardProps {
+  map: L.Map | null;
+  tiles: MapTileConfig;
+  ward: string;
+}
+
+// Street level for a ward, without the tile count running away
+const DEFAULT_MIN_ZOOM = 12;
+const DEFAULT_MAX_ZOOM = 17;
+
+const getViewBounds = (map: L.Map): TileBounds => {
+  const bounds = map.getBounds();
+  return {
+    north: bounds.getNorth(),
+    south: bounds.getSouth(),
+    east: bounds.getEast(),
+    west: bounds.getWest()
+  };
+};
+
+const OfflineTilesCard: React.FC<OfflineTilesCardProps> = ({ map, tiles, ward }) => {
+  const [info, setInfo] = useState<TileCacheInfo | null>(() => TileCache.getInfo());
+  const [usage, setUsage] = useState<TileCacheUsage>({ tileCount: 0, bytes: 0 });
+  const [deviceStorage, setDeviceStorage] = useState<StorageEstimate | null>(null);
+  const [viewBounds, setViewBounds] = useState<TileBounds | null>(null);
+  const [minZoom, setMinZoom] = useState(Math.min(DEFAULT_MIN_ZOOM, tiles.maxZoom));
+  const [maxZoom, setMaxZoom] = useState(Math.min(DEFAULT_MAX_ZOOM, tiles.maxZoom));
+  const [progress, setProgress] = useState<TileDownloadProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  const refreshUsage = useCallback(async () => {
+    setInfo(TileCache.getInfo());
+    try {
+      setUsage(await TileCache.getUsage());
+      setDeviceStorage(await navigator.storage?.estimate?.() || null);
+    } catch (error) {
+      console.error('Error reading offline map storage:', error);
+    }
+  }, []);
+
+  // Saved tiles from another ward or tile source are no use here
+  useEffect(() => {
+    TileCache.evictIfStale(ward, tiles.url)
+      .catch(error => console.warn('Could not clear offline map tiles:', error))
+      .then(refreshUsage);
+  }, [ward, tiles.url, refreshUsage]);
+
+  // The download covers whatever area the map is showing
+  useEffect(() => {
+    if (!map) return;
+    const update = () => setViewBounds(getViewBounds(map));
+    update();
+    map.on('moveend', update);
+    return () => {
+      map.off('moveend', update);
+    };
+  }, [map]);
+
+  // Stop a running download when leaving the map
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const zoomLevels = Array.from({ length: tiles.maxZoom }, (_, index) => index + 1);
+  const tileCount = viewBounds ? countTiles(viewBounds, minZoom, maxZoom) : 0;
+  const isTooLarge = tileCount > MAX_TILE_DOWNLOAD;
+  const canDownload = isBulkDownloadAllowed(tiles.url);
+  const isDownloading = progress !== null;
+
+  const handleDownload = async () => {
+    if (!viewBounds || !ward) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: tileCount, failed: 0 });
+    try {
+      // Ask the browser not to clear the tiles when space runs low
+      await navigator.storage?.persist?.();
+      const result = await TileCache.download(ward, tiles.url, viewBounds, minZoom, maxZoom, {
+        onProgress: setProgress,
+        signal: controller.signal
+      });
+      if (controller.signal.aborted) {
+        toast({ title: 'Download Cancelled', description: 'Tiles downloaded so far are kept' });
+      } else {
+        toast({
+          title: 'Offline Map Ready',
+          description: `${result.total - result.failed} tiles saved for ward ${ward}` +
+            (result.failed > 0 ? `; ${result.failed} could not be downloaded` : ''),
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Download Failed',
+        description: error instanceof Error ? error.message : 'Unable to download map tiles',
+        variant: 'destructive'
+      });
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+      refreshUsage();
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await TileCache.clear();
+      toast({ title: 'Offline Map Removed', description: 'The map will load tiles from the network' });
+    } catch (error) {
+      console.error('Error clearing offline map:', error);
+    }
+    refreshUsage();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CloudDownload className="h-5 w-5 text-primary" />
+          Offline Map
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="text-sm">
+          {usage.tileCount > 0 && info ? (
+            <p>
+              {usage.tileCount} tiles · {formatBytes(usage.bytes)} saved for ward {info.ward}
+              {info.min_zoom !== undefined && ` (zoom ${info.min_zoom}–${info.max_zoom})`}
+            </p>
+          ) : (
+            <p className="text-muted-foreground">No map tiles saved on this device.</p>
+          )}
+          {info?.updated_at && (
+            <p className="text-xs text-muted-foreground">Last downloaded {formatTimestamp(info.updated_at)}</p>
+          )}
+          {!!deviceStorage?.quota && (
+            <p className="text-xs text-muted-foreground">
+              {formatBytes(deviceStorage.usage || 0)} of {formatBytes(deviceStorage.quota)} used by the app on this device
+            </p>
+          )}
+        </div>
+
+        {!ward ? (
+          <p className="text-sm text-muted-foreground">
+            Set your ward in the Household Directory on the Dashboard to download its map.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Move the map so it covers ward {ward}, pick the zoom levels, then download.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={String(minZoom)} onValueChange={value => setMinZoom(Number(value))} disabled={isDownloading}>
+                <SelectTrigger aria-label="From zoom">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {zoomLevels.filter(zoom => zoom <= maxZoom).map(zoom => (
+                    <SelectItem key={zoom} value={String(zoom)}>From zoom {zoom}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={String(maxZoom)} onValueChange={value => setMaxZoom(Number(value))} disabled={isDownloading}>
+                <SelectTrigger aria-label="To zoom">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {zoomLevels.filter(zoom => zoom >= minZoom).map(zoom => (
+                    <SelectItem key={zoom} value={String(zoom)}>To zoom {zoom}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className={`text-xs ${isTooLarge ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {tileCount} tiles for the area on the map
+              {isTooLarge && ` — over the ${MAX_TILE_DOWNLOAD} limit, zoom in or lower the maximum zoom`}
+            </p>
+            {!canDownload && (
+              <p className="text-xs text-destructive">{BULK_DOWNLOAD_BLOCKED_MESSAGE}</p>
+            )}
+
+            {progress ? (
+              <div className="space-y-2">
+                <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>{progress.done} / {progress.total} tiles</span>
+                  <Button variant="ghost" size="sm" onClick={() => abortRef.current?.abort()}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Button className="flex-1" onClick={handleDownload} disabled={!viewBounds || isTooLarge || !canDownload}>
+                  <CloudDownload className="mr-2 h-4 w-4" />
+                  Download Area
+                </Button>
+                <Button variant="outline" onClick={handleClear} disabled={usage.tileCount === 0}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Clear
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OfflineTilesCard;
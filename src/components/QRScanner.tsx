@@ -4,11 +4,13 @@ import { QrReader } from '@cmdnio/react-qr-reader';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { parseQRCode, getScannerErrorMessage } from '@/utils/scanner';
-import { getCurrentLocation } from '@/utils/location';
+import { HouseholdRegistry, type HouseholdLookup } from '@/utils/households';
 import { Camera, ScanLine, X, RotateCw } from 'lucide-react';
 
+const SCAN_REPEAT_COOLDOWN_MS = 5000;
+
 interface QRScannerProps {
-  onScanSuccess: (userId: string, location?: { lat: number; lng: number }) => void;
+  onScanSuccess: (userId: string, household?: HouseholdLookup) => void;
   onClose: () => void;
 }
 
@@ -18,6 +20,7 @@ const QRScanner: React.FC<QRScannerProps> = ({ onScanSuccess, onClose }) => {
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
   const [isProcessing, setIsProcessing] = useState(false);
   const [hasCameraPermission, setHasCameraPermission] = useState<boolean | null>(null);
+  const lastScanRef = useRef<{ text: string; at: number } | null>(null);
   const { toast } = useToast();
 
   // Check camera permissions on mount
@@ -46,29 +49,26 @@ const QRScanner: React.FC<QRScannerProps> = ({ onScanSuccess, onClose }) => {
 
   const handleScan = useCallback(async (result: string | null) => {
     if (result && !isProcessing) {
+      // QrReader keeps firing while the code stays in frame; ignore repeats of the same code
+      const now = Date.now();
+      if (lastScanRef.current?.text === result && now - lastScanRef.current.at < SCAN_REPEAT_COOLDOWN_MS) {
+        return;
+      }
+      lastScanRef.current = { text: result, at: now };
+
       setIsProcessing(true);
       
       try {
-        const scanResult = parseQRCode(result);
+        const scanResult = await parseQRCode(result);
         
         if (scanResult.isValid && scanResult.userId) {
-          try {
-            const location = await getCurrentLocation();
-            toast({
-              title: 'QR Code Scanned!',
-              description: `User ID: ${scanResult.userId}`,
-            });
-            onScanSuccess(scanResult.userId, {
-              lat: location.latitude,
-              lng: location.longitude
-            });
-          } catch (locationError) {
-            toast({
-              title: 'QR Code Scanned!',
-              description: `User ID: ${scanResult.userId} (Location unavailable)`,
-            });
-            onScanSuccess(scanResult.userId);
-          }
+          const household = await HouseholdRegistry.lookup(scanResult.userId, scanResult.ward);
+          // The location is taken on the collection screen, where it can wait for a good fix
+          toast({
+            title: 'QR Code Scanned!',
+            description: household.household?.name || `User ID: ${scanResult.userId}`,
+          });
+          onScanSuccess(scanResult.userId, household);
         } else {
           toast({
             title: 'Invalid QR Code',
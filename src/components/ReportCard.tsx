@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import ReportLocationMap from '@/components/ReportLocationMap';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CollectorAPI,
+  formatTimestamp,
+  type IllegalDumpingReport,
+  type ReportStatus,
+  type ReportStatusDetails
+} from '@/utils/api';
+import { CREW_STATUSES, SUPERVISOR_STATUSES, canTransition, formatDuration, getResolutionHours } from '@/utils/reportLifecycle';
+import { checkPhotoMetadata } from '@/utils/photoMetadata';
+import { getPriorityColor, getReportPriority } from '@/utils/reportDetails';
+import { formatAccuracy, hasLocation } from '@/utils/location';
+import { AlertTriangle, CheckCircle, XCircle, Clock, MapPin, User, Users, RotateCcw, Wrench } from 'lucide-react';
+
+interface ReportCardProps {
+  report: IllegalDumpingReport;
+  onUpdated: (report: IllegalDumpingReport) => void;
+  onOpenReport: (report: IllegalDumpingReport) => void;
+}
+
+const ReportCard: React.FC<ReportCardProps> = ({ report, onUpdated, onOpenReport }) => {
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [afterPhoto, setAfterPhoto] = useState<string | null>(null);
+  const [action, setAction] = useState<'reject' | 'assign' | 'reopen' | null>(null);
+  const [reason, setReason] = useState('');
+  const [crew, setCrew] = useState(report.assigned_crew || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    CollectorAPI.getReportPhotos(report).then(setPhotos).catch(() => setPhotos([]));
+    CollectorAPI.getAfterPhoto(report).then(setAfterPhoto).catch(() => setAfterPhoto(null));
+  }, [report]);
+
+  const update = async (status: ReportStatus, details: ReportStatusDetails = {}) => {
+    setIsSaving(true);
+    try {
+      const updated = await CollectorAPI.updateReportStatus(report, status, details);
+      toast({
+        title: `Report ${status}`,
+        description: `Report #${report.id?.slice(-6)} from ${report.collector_id}`,
+      });
+      setAction(null);
+      setReason('');
+      onUpdated(updated);
+    } catch (error) {
+      toast({
+        title: 'Update Failed',
+        description: error instanceof Error ? error.message : 'Unable to update the report',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Same rule CollectorAPI.updateReportStatus enforces, so collectors only see what they can do
+  const isSupervisor = CollectorAPI.isSupervisor();
+  const isCrew = !!report.assigned_crew && report.assigned_crew === CollectorAPI.getCurrentCollector()?.id;
+  const canSet = (status: ReportStatus) =>
+    canTransition(report.status, status) &&
+    (isSupervisor || !SUPERVISOR_STATUSES.includes(status)) &&
+    (isCrew || !CREW_STATUSES.includes(status));
+
+  const resolutionHours = getResolutionHours(report);
+  const priority = getReportPriority(report);
+  const photoWarnings = (report.photo_metadata || []).flatMap((metadata, index) =>
+    checkPhotoMetadata(metadata, report).map(warning => `Photo ${index + 1}: ${warning.message}`)
+  );
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">Report #{report.id?.slice(-6)}</span>
+          <div className="flex items-center gap-1">
+            {report.status !== 'Resolved' && report.status !== 'Rejected' && priority !== 'Normal' && (
+              <Badge className={getPriorityColor(priority)}>{priority}</Badge>
+            )}
+            <Badge variant="outline">{report.status}</Badge>
+          </div>
+        </div>
+
+        {(report.category || report.severity || report.estimated_volume) && (
+          <div className="flex flex-wrap items-center gap-1">
+            {report.category && <Badge variant="secondary">{report.category}</Badge>}
+            {report.severity && <Badge variant="secondary">{report.severity} severity</Badge>}
+            {report.estimated_volume && <Badge variant="secondary">{report.estimated_volume}</Badge>}
+            {report.blocks_drain_or_road && (
+              <Badge variant="secondary" className="text-destructive">
+                <AlertTriangle className="mr-1 h-3 w-3" />
+                Blocking
+              </Badge>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <User className="h-3 w-3" />
+            {report.collector_id}
+            {(report.confirmations?.length || 0) > 0 && (
+              <span className="ml-1">+{report.confirmations.length} confirmed</span>
+            )}
+          </span>
+          {report.assigned_crew && (
+            <span className="flex items-center gap-1">
+              <Users className="h-3 w-3" />
+              Crew {report.assigned_crew}
+            </span>
+          )}
+        </div>
+
+        {(photos.length > 0 || afterPhoto) && (
+          <div className="flex gap-2 overflow-x-auto">
+            {photos.map((photo, index) => (
+              <img
+                key={index}
+                src={photo}
+                alt={`Dumping evidence ${index + 1}`}
+                className={`h-40 object-cover rounded-lg ${photos.length > 1 || afterPhoto ? 'w-4/5 shrink-0' : 'w-full'}`}
+              />
+            ))}
+            {afterPhoto && (
+              <img
+                src={afterPhoto}
+                alt="After cleanup"
+                className={`h-40 object-cover rounded-lg ${photos.length > 0 ? 'w-4/5 shrink-0' : 'w-full'}`}
+              />
+            )}
+          </div>
+        )}
+
+        {report.status === 'Pending' && photoWarnings.length > 0 && (
+          <div className="p-2 bg-warning/10 text-warning rounded-lg text-xs space-y-1">
+            {photoWarnings.map(warning => <p key={warning}>{warning}</p>)}
+          </div>
+        )}
+
+        {report.description && (
+          <p className="text-sm text-muted-foreground">{report.description}</p>
+        )}
+
+        {report.status === 'Pending' && hasLocation(report.latitude, report.longitude) && (
+          <ReportLocationMap latitude={report.latitude} longitude={report.longitude} />
+        )}
+
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <div className="flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            {formatTimestamp(report.timestamp)}
+          </div>
+          {resolutionHours !== null ? (
+            <span>Resolved in {formatDuration(resolutionHours)}</span>
+          ) : (
+            <div className="flex items-center gap-1">
+              <MapPin className="h-3 w-3" />
+              {hasLocation(report.latitude, report.longitude)
+                ? `${report.latitude.toFixed(4)}, ${report.longitude.toFixed(4)}`
+                : 'No location'}
+              {report.location_accuracy_m !== undefined && ` · ${formatAccuracy(report.location_accuracy_m)}`}
+            </div>
+          )}
+        </div>
+
+        {action === 'reject' || action === 'reopen' ? (
+          <div className="space-y-2">
+            <Textarea
+              placeholder={action === 'reject' ? 'Reason for rejecting (shown to the collector)' : 'Why is the site not clean?'}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="outline" onClick={() => setAction(null)} disabled={isSaving}>
+                Back
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => update(action === 'reject' ? 'Rejected' : 'Reopened', { reason: reason.trim() })}
+                disabled={isSaving || !reason.trim()}
+              >
+                {action === 'reject' ? 'Reject' : 'Reopen'}
+              </Button>
+            </div>
+          </div>
+        ) : action === 'assign' ? (
+          <div className="space-y-2">
+            <Input
+              placeholder="Crew ID"
+              value={crew}
+              onChange={(e) => setCrew(e.target.value)}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="outline" onClick={() => setAction(null)} disabled={isSaving}>
+                Back
+              </Button>
+              <Button onClick={() => update('Assigned', { crew: crew.trim() })} disabled={isSaving || !crew.trim()}>
+                Assign
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            {canSet('Rejected') && (
+              <Button variant="outline" onClick={() => setAction('reject')} disabled={isSaving}>
+                <XCircle className="mr-2 h-4 w-4" />
+                Reject
+              </Button>
+            )}
+            {canSet('Verified') && (
+              <Button onClick={() => update('Verified')} disabled={isSaving}>
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Verify
+              </Button>
+            )}
+            {canSet('Assigned') && (
+              <Button onClick={() => setAction('assign')} disabled={isSaving}>
+                <Users className="mr-2 h-4 w-4" />
+                {report.assigned_crew ? 'Reassign' : 'Assign Crew'}
+              </Button>
+            )}
+            {isCrew && (report.status === 'Assigned' || report.status === 'Cleanup In Progress') && (
+              <Button variant="outline" onClick={() => onOpenReport(report)} disabled={isSaving}>
+                <Wrench className="mr-2 h-4 w-4" />
+                Cleanup
+              </Button>
+            )}
+            {canSet('Reopened') && (
+              <Button variant="outline" onClick={() => setAction('reopen')} disabled={isSaving}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Reopen
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReportCard;
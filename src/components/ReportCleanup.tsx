@@ -0,0 +1,258 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { compressImage } from '@/utils/images';
+import { CollectorAPI, formatTimestamp, type IllegalDumpingReport } from '@/utils/api';
+import { Camera, Clock, Users, Wrench, X, CheckCircle } from 'lucide-react';
+
+interface ReportCleanupProps {
+  report: IllegalDumpingReport;
+  onUpdated: (report: IllegalDumpingReport) => void;
+  onClose: () => void;
+}
+
+const ReportCleanup: React.FC<ReportCleanupProps> = ({ report, onUpdated, onClose }) => {
+  const [current, setCurrent] = useState(report);
+  const [beforePhotos, setBeforePhotos] = useState<string[]>([]);
+  const [afterPhoto, setAfterPhoto] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    CollectorAPI.getReportPhotos(report).then(setBeforePhotos).catch(() => setBeforePhotos([]));
+  }, [report]);
+
+  const handlePhotoCapture = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setAfterPhoto(await compressImage(file));
+    } catch (error) {
+      // e.g. a HEIC or corrupt file the browser can't decode; clear the input so it can be picked again
+      e.target.value = '';
+      toast({
+        title: 'Photo Error',
+        description: error instanceof Error ? error.message : 'Unable to process the photo',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const clearPhoto = () => {
+    setAfterPhoto(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const startCleanup = async () => {
+    setIsSubmitting(true);
+    try {
+      const updated = await CollectorAPI.updateReportStatus(current, 'Cleanup In Progress');
+      setCurrent(updated);
+      onUpdated(updated);
+    } catch (error) {
+      toast({
+        title: 'Update Failed',
+        description: error instanceof Error ? error.message : 'Unable to start cleanup',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleResolve = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!afterPhoto) {
+      toast({
+        title: 'Photo Required',
+        description: 'Take a photo of the cleared site first',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const updated = await CollectorAPI.updateReportStatus(current, 'Resolved', {
+        after_photo_base64: afterPhoto,
+        reason: notes.trim() || undefined
+      });
+      toast({
+        title: 'Report Resolved',
+        description: 'Cleanup has been recorded',
+      });
+      onUpdated(updated);
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Update Failed',
+        description: error instanceof Error ? error.message : 'Unable to resolve the report',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="w-full max-w-md max-h-[90vh] overflow-y-auto"
+      >
+        <Card className="shadow-xl border-0">
+          <CardHeader className="pb-4">
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Wrench className="h-6 w-6 text-primary" />
+                Cleanup
+              </CardTitle>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onClose}
+                className="h-8 w-8"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+
+          <CardContent>
+            <form onSubmit={handleResolve} className="space-y-6">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">Report #{current.id?.slice(-6)}</span>
+                  <Badge variant="outline">{current.status}</Badge>
+                </div>
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    {formatTimestamp(current.timestamp)}
+                  </span>
+                  {current.assigned_crew && (
+                    <span className="flex items-center gap-1">
+                      <Users className="h-3 w-3" />
+                      Crew {current.assigned_crew}
+                    </span>
+                  )}
+                </div>
+                {current.description && (
+                  <p className="text-sm text-muted-foreground">{current.description}</p>
+                )}
+              </div>
+
+              {beforePhotos.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Before</Label>
+                  <div className="flex gap-2 overflow-x-auto">
+                    {beforePhotos.map((photo, index) => (
+                      <img
+                        key={index}
+                        src={photo}
+                        alt={`Dumping evidence ${index + 1}`}
+                        className={`h-40 object-cover rounded-lg ${beforePhotos.length > 1 ? 'w-4/5 shrink-0' : 'w-full'}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {current.status === 'Assigned' && (
+                <Button type="button" className="w-full" onClick={startCleanup} disabled={isSubmitting}>
+                  <Wrench className="mr-2 h-4 w-4" />
+                  Start Cleanup
+                </Button>
+              )}
+
+              {current.status === 'Cleanup In Progress' && (
+                <>
+                  {/* After Photo */}
+                  <div className="space-y-3">
+                    <Label>After Photo</Label>
+
+                    {afterPhoto ? (
+                      <div className="relative">
+                        <img
+                          src={afterPhoto}
+                          alt="After cleanup"
+                          className="w-full h-48 object-cover rounded-lg"
+                        />
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="destructive"
+                          className="absolute top-2 right-2"
+                          onClick={clearPhoto}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="w-full h-32 border-dashed border-2 hover:border-primary"
+                        onClick={() => fileInputRef.current?.click()}
+                      >
+                        <div className="text-center">
+                          <Camera className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+                          <span className="text-sm text-muted-foreground">
+                            Photograph the Cleared Site
+                          </span>
+                        </div>
+                      </Button>
+                    )}
+
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="image/*"
+                      capture="environment"
+                      onChange={handlePhotoCapture}
+                      className="hidden"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="cleanup-notes">Notes (Optional)</Label>
+                    <Textarea
+                      id="cleanup-notes"
+                      placeholder="What was cleared, vehicles used..."
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      rows={3}
+                    />
+                  </div>
+
+                  <Button
+                    type="submit"
+                    disabled={!afterPhoto || isSubmitting}
+                    className="w-full"
+                  >
+                    <CheckCircle className="mr-2 h-4 w-4" />
+                    Mark Resolved
+                  </Button>
+                </>
+              )}
+            </form>
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ReportCleanup;
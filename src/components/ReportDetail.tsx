@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import ReportCard from '@/components/ReportCard';
+import { CollectorAPI, formatStatusChange, formatTimestamp, type IllegalDumpingReport } from '@/utils/api';
+import { AlertTriangle, Clock, X } from 'lucide-react';
+
+interface ReportDetailProps {
+  reportId: string;
+  onOpenReport: (report: IllegalDumpingReport) => void;
+  onClose: () => void;
+}
+
+const ReportDetail: React.FC<ReportDetailProps> = ({ reportId, onOpenReport, onClose }) => {
+  const [report, setReport] = useState<IllegalDumpingReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        setReport(await CollectorAPI.getReport(reportId));
+      } catch (error) {
+        console.error('Error loading report:', error);
+        setReport(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [reportId]);
+
+  return (
+    <div className="space-y-6 p-4 pb-24">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-warning" />
+                Dumping Report
+              </CardTitle>
+              <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          {!report && (
+            <CardContent>
+              <p className="text-center py-8 text-muted-foreground">
+                {isLoading ? 'Loading…' : `Report ${reportId} was not found on this device or the server`}
+              </p>
+            </CardContent>
+          )}
+        </Card>
+      </motion.div>
+
+      {report && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+        >
+          <ReportCard report={report} onUpdated={setReport} onOpenReport={onOpenReport} />
+        </motion.div>
+      )}
+
+      {report && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+        >
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="h-5 w-5 text-primary" />
+                History
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <p>Reported by {report.collector_id} · {formatTimestamp(report.timestamp)}</p>
+              {(report.status_history || []).map((change, index) => (
+                <p key={index} className="text-muted-foreground">{formatStatusChange(change)}</p>
+              ))}
+              {(report.confirmations || []).map(confirmation => (
+                <p key={confirmation.collector_id} className="text-muted-foreground">
+                  Confirmed by {confirmation.collector_id} · {formatTimestamp(confirmation.confirmed_at)}
+                  {confirmation.note && ` — ${confirmation.note}`}
+                </p>
+              ))}
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default ReportDetail;
@@ -1,68 +1,255 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import WardCheckWarning from '@/components/WardCheckWarning';
+import LocationFixPanel from '@/components/LocationFixPanel';
+import { useLocationFix } from '@/hooks/use-location-fix';
 import { useToast } from '@/hooks/use-toast';
-import { CollectorAPI, convertFileToBase64 } from '@/utils/api';
-import { getCurrentLocation } from '@/utils/location';
-import { Camera, MapPin, Upload, X, CheckCircle, AlertTriangle } from 'lucide-react';
+import { CollectorAPI, formatTimestamp, type IllegalDumpingReport } from '@/utils/api';
+import { formatAccuracy, formatCoordinates, toRecordLocation, type LocationFix } from '@/utils/location';
+import { WardBoundaries } from '@/utils/wards';
+import { compressImage, getPhotoOptions, getDataUrlSize, formatBytes } from '@/utils/images';
+import {
+  DUMPING_CATEGORIES,
+  REPORT_SEVERITIES,
+  VOLUME_ESTIMATES,
+  validateReportDetails,
+  type DumpingCategory,
+  type ReportDetailErrors,
+  type ReportSeverity,
+  type VolumeEstimate
+} from '@/utils/reportDetails';
+import { findNearbyReports, type NearbyReport } from '@/utils/reportDuplicates';
+import { readPhotoMetadata, getCanvasRotation, checkPhotoMetadata } from '@/utils/photoMetadata';
+import { ReportDrafts, type CapturedPhoto, type ReportDraft } from '@/utils/reportDrafts';
+import { generateUuidV7 } from '@/utils/ids';
+import { Camera, MapPin, Upload, X, CheckCircle, AlertTriangle, ChevronLeft, ChevronRight, Users, PlusCircle } from 'lucide-react';
 
 interface ReportDumpingProps {
   collectorId: string;
+  draft?: ReportDraft | null; // Resume a saved draft instead of starting empty
   onReportSubmitted: () => void;
   onClose: () => void;
 }
 
+// Wait for a pause in typing before writing the draft
+const DRAFT_SAVE_DELAY_MS = 500;
+
 const ReportDumping: React.FC<ReportDumpingProps> = ({ 
   collectorId, 
+  draft = null,
   onReportSubmitted, 
   onClose 
 }) => {
-  const [description, setDescription] = useState('');
-  const [photo, setPhoto] = useState<File | null>(null);
-  const [photoPreview, setPhotoPreview] = useState<string | null>(null);
-  const [location, setLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [description, setDescription] = useState(draft?.description || '');
+  const [category, setCategory] = useState<DumpingCategory | null>(draft?.category || null);
+  const [severity, setSeverity] = useState<ReportSeverity | null>(draft?.severity || null);
+  const [volume, setVolume] = useState<VolumeEstimate | null>(draft?.estimated_volume || null);
+  const [isBlocking, setIsBlocking] = useState(draft?.blocks_drain_or_road || false);
+  const [detailErrors, setDetailErrors] = useState<ReportDetailErrors>({});
+  const [photos, setPhotos] = useState<CapturedPhoto[]>([]);
+  const [photosLoaded, setPhotosLoaded] = useState(!draft);
+  const [droppedPhotos, setDroppedPhotos] = useState(draft?.photos_dropped || 0);
+  const [isProcessingPhotos, setIsProcessingPhotos] = useState(false);
+  const [location, setLocation] = useState<LocationFix | null>(draft?.location || null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [isGettingLocation, setIsGettingLocation] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const [nearbyReports, setNearbyReports] = useState<NearbyReport[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const draftId = useRef(draft?.id || generateUuidV7());
+  const draftCreatedAt = useRef(draft?.created_at || new Date().toISOString());
+  const pendingDraftSave = useRef<(() => void) | null>(null);
   const { toast } = useToast();
+  const photoOptions = getPhotoOptions();
+  const locationFix = useLocationFix(isLocating);
+
+  // A resumed draft's photos come back from the photo store; any taken while they load are kept after them
+  useEffect(() => {
+    if (!draft) return;
+    ReportDrafts.loadPhotos(draft)
+      .then(loaded => setPhotos(prev => [
+        ...loaded,
+        ...prev.filter(photo => !loaded.some(item => item.id === photo.id))
+      ].slice(0, photoOptions.maxPhotos)))
+      .catch(error => console.warn('Unable to load the draft photos:', error))
+      .finally(() => setPhotosLoaded(true));
+  }, [draft, photoOptions.maxPhotos]);
 
-  const handlePhotoCapture = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setPhoto(file);
-      
-      // Create preview
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setPhotoPreview(e.target?.result as string);
+  // Save the form as a draft shortly after each change
+  useEffect(() => {
+    // Saving before the photos are back would drop them from the draft
+    if (!photosLoaded) return;
+    const save = () => {
+      pendingDraftSave.current = null;
+      const fields = {
+        photos,
+        location: location || undefined,
+        category: category || undefined,
+        severity: severity || undefined,
+        estimated_volume: volume || undefined,
+        blocks_drain_or_road: isBlocking || undefined,
+        description: description || undefined
       };
-      reader.readAsDataURL(file);
+      if (ReportDrafts.isEmpty(fields)) {
+        ReportDrafts.remove(draftId.current).catch(error => console.warn('Unable to remove the report draft:', error));
+        return;
+      }
+      ReportDrafts.save({
+        ...fields,
+        id: draftId.current,
+        collector_id: collectorId,
+        created_at: draftCreatedAt.current
+      })
+        .then(saved => setDroppedPhotos(saved.photos_dropped || 0))
+        .catch(error => console.warn('Unable to save the report draft:', error));
+    };
+
+    pendingDraftSave.current = save;
+    const timer = setTimeout(save, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [photosLoaded, collectorId, photos, location, category, severity, volume, isBlocking, description]);
+
+  // Don't lose the last change when the form is closed before the delay is up
+  useEffect(() => {
+    return () => pendingDraftSave.current?.();
+  }, []);
+
+  // Offer open reports close by so the same pile isn't reported twice
+  useEffect(() => {
+    if (!location) return;
+    let cancelled = false;
+    CollectorAPI.getAllReports()
+      .then(reports => {
+        if (!cancelled) setNearbyReports(findNearbyReports(location, reports));
+      })
+      .catch(error => console.warn('Unable to check for nearby reports:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [location]);
+
+  // The report now exists, so its draft is no longer needed
+  const finishDraft = () => {
+    pendingDraftSave.current = null;
+    ReportDrafts.remove(draftId.current).catch(error => console.warn('Unable to remove the report draft:', error));
+  };
+
+  const hasDraft = !ReportDrafts.isEmpty({
+    photos,
+    location: location || undefined,
+    category: category || undefined,
+    severity: severity || undefined,
+    estimated_volume: volume || undefined,
+    blocks_drain_or_road: isBlocking,
+    description
+  });
+
+  const discardDraft = () => {
+    finishDraft();
+    onClose();
+  };
+
+  const handlePhotoCapture = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (files.length === 0) return;
+
+    const room = photoOptions.maxPhotos - photos.length;
+    if (files.length > room) {
+      toast({
+        title: 'Too Many Photos',
+        description: `A report can have up to ${photoOptions.maxPhotos} photos`,
+        variant: 'destructive'
+      });
+    }
+
+    setIsProcessingPhotos(true);
+    try {
+      // Read EXIF from the original, then compress so full-resolution files never reach storage
+      const captured = await Promise.all(files.slice(0, room).map(async file => {
+        const [metadata, rotation] = await Promise.all([readPhotoMetadata(file), getCanvasRotation(file)]);
+        return { id: generateUuidV7(), dataUrl: await compressImage(file, photoOptions, rotation), metadata };
+      }));
+      setPhotos(prev => [...prev, ...captured].slice(0, photoOptions.maxPhotos));
+    } catch (error) {
+      toast({
+        title: 'Photo Error',
+        description: error instanceof Error ? error.message : 'Unable to process the photo',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsProcessingPhotos(false);
     }
   };
 
-  const getLocation = async () => {
-    setIsGettingLocation(true);
+  const wardCheck = useMemo(
+    () => location ? WardBoundaries.check(location.lat, location.lng, CollectorAPI.getCurrentCollector()?.area) : null,
+    [location]
+  );
+
+  // Re-checked as the location is captured; the report will be timestamped about now
+  const photoWarnings = photos.map(photo => checkPhotoMetadata(photo.metadata, {
+    timestamp: new Date().toISOString(),
+    latitude: location?.lat,
+    longitude: location?.lng
+  }));
+
+  const movePhoto = (index: number, offset: number) => {
+    setPhotos(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removePhoto = (index: number) => {
+    setPhotos(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // A report needs a location, so there is no skipping; a poor fix can still be accepted
+  useEffect(() => {
+    if (locationFix.status !== 'ready' || !locationFix.fix) return;
+    const fix = locationFix.fix;
+    setLocation(fix);
+    setIsLocating(false);
+    toast({
+      title: 'Location Captured',
+      description: formatCoordinates(fix.lat, fix.lng) + (fix.accuracy !== undefined ? ` (${formatAccuracy(fix.accuracy)})` : ''),
+    });
+  }, [locationFix.status, locationFix.fix, toast]);
+
+  const addToReport = async (report: IllegalDumpingReport) => {
+    setIsSubmitting(true);
     try {
-      const locationData = await getCurrentLocation();
-      setLocation({
-        lat: locationData.latitude,
-        lng: locationData.longitude
+      await CollectorAPI.confirmReport(report, collectorId, {
+        photos_base64: photos.map(photo => photo.dataUrl),
+        photo_metadata: photos.map(photo => photo.metadata),
+        note: description.trim() || undefined
       });
+      finishDraft();
+
       toast({
-        title: 'Location Captured',
-        description: `Lat: ${locationData.latitude.toFixed(6)}, Lng: ${locationData.longitude.toFixed(6)}`,
+        title: 'Added to Report',
+        description: `Your ${photos.length === 1 ? 'photo was' : 'photos were'} added to report #${report.id?.slice(-6)}`,
       });
-    } catch (error: any) {
+
+      onReportSubmitted();
+    } catch (error) {
       toast({
-        title: 'Location Error',
-        description: error.message || 'Unable to get current location',
+        title: 'Update Failed',
+        description: error instanceof Error ? error.message : 'Unable to add to the report',
         variant: 'destructive'
       });
     } finally {
-      setIsGettingLocation(false);
+      setIsSubmitting(false);
     }
   };
 
@@ -78,22 +265,37 @@ const ReportDumping: React.FC<ReportDumpingProps> = ({
       return;
     }
 
+    const { details, errors } = validateReportDetails({
+      category,
+      severity,
+      estimated_volume: volume,
+      blocks_drain_or_road: isBlocking,
+      description: description.trim() || undefined
+    });
+    setDetailErrors(errors);
+    if (!details) {
+      toast({
+        title: 'Details Required',
+        description: Object.values(errors)[0],
+        variant: 'destructive'
+      });
+      return;
+    }
+
     setIsSubmitting(true);
     try {
-      let photoBase64 = '';
-      if (photo) {
-        photoBase64 = await convertFileToBase64(photo);
-      }
-
+      const timestamp = new Date().toISOString();
       const report = await CollectorAPI.reportIllegalDumping({
+        ...details,
         collector_id: collectorId,
-        description: description.trim() || undefined,
-        photo_base64: photoBase64 || undefined,
-        timestamp: new Date().toISOString(),
-        latitude: location.lat,
-        longitude: location.lng,
+        photos_base64: photos.length > 0 ? photos.map(photo => photo.dataUrl) : undefined,
+        photo_metadata: photos.length > 0 ? photos.map(photo => photo.metadata) : undefined,
+        timestamp,
+        ...toRecordLocation(location, timestamp),
+        ...(wardCheck?.wardId ? { ward_id: wardCheck.wardId } : {}),
         status: 'Pending'
       });
+      finishDraft();
 
       toast({
         title: 'Report Submitted',
@@ -136,48 +338,112 @@ const ReportDumping: React.FC<ReportDumpingProps> = ({
                 <X className="h-4 w-4" />
               </Button>
             </div>
+            {draft && (
+              <p className="text-xs text-muted-foreground">
+                Draft started {formatTimestamp(draft.created_at)}
+              </p>
+            )}
           </CardHeader>
 
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-6">
               {/* Photo Section */}
               <div className="space-y-3">
-                <Label>Photo Evidence</Label>
-                
-                {photoPreview ? (
-                  <div className="relative">
-                    <img
-                      src={photoPreview}
-                      alt="Dumping evidence"
-                      className="w-full h-48 object-cover rounded-lg"
-                    />
-                    <Button
-                      type="button"
-                      size="icon"
-                      variant="destructive"
-                      className="absolute top-2 right-2"
-                      onClick={() => {
-                        setPhoto(null);
-                        setPhotoPreview(null);
-                        if (fileInputRef.current) {
-                          fileInputRef.current.value = '';
-                        }
-                      }}
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
+                <div className="flex items-center justify-between">
+                  <Label>Photo Evidence</Label>
+                  {photos.length > 0 && (
+                    <span className="text-xs text-muted-foreground">
+                      {photos.length}/{photoOptions.maxPhotos} · {formatBytes(photos.reduce((sum, photo) => sum + getDataUrlSize(photo.dataUrl), 0))}
+                    </span>
+                  )}
+                </div>
+
+                {droppedPhotos > 0 && (
+                  <div className="p-3 bg-warning/10 text-warning rounded-lg text-sm flex items-start gap-2">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    <span>
+                      {droppedPhotos === 1 ? '1 photo' : `${droppedPhotos} photos`} can't be kept in the draft on
+                      this device. Submit before closing the app.
+                    </span>
                   </div>
-                ) : (
+                )}
+
+                {photos.length > 0 && (
+                  <img
+                    src={photos[0].dataUrl}
+                    alt="Dumping evidence"
+                    className="w-full h-48 object-cover rounded-lg"
+                  />
+                )}
+
+                {photos.length > 0 && (
+                  <div className="flex gap-2 overflow-x-auto pb-1">
+                    {photos.map((photo, index) => (
+                      <div key={index} className="relative shrink-0">
+                        <img
+                          src={photo.dataUrl}
+                          alt={`Photo ${index + 1}`}
+                          className={`w-20 h-20 object-cover rounded-md ${index === 0 ? 'ring-2 ring-primary' : ''}`}
+                        />
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="destructive"
+                          className="absolute top-1 right-1 h-5 w-5"
+                          onClick={() => removePhoto(index)}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                        <div className="absolute bottom-1 left-1 right-1 flex justify-between">
+                          <Button
+                            type="button"
+                            size="icon"
+                            variant="secondary"
+                            className="h-5 w-5"
+                            disabled={index === 0}
+                            onClick={() => movePhoto(index, -1)}
+                          >
+                            <ChevronLeft className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            type="button"
+                            size="icon"
+                            variant="secondary"
+                            className="h-5 w-5"
+                            disabled={index === photos.length - 1}
+                            onClick={() => movePhoto(index, 1)}
+                          >
+                            <ChevronRight className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {photoWarnings.some(warnings => warnings.length > 0) && (
+                  <div className="p-3 bg-warning/10 text-warning rounded-lg text-sm space-y-1">
+                    {photoWarnings.flatMap((warnings, index) => warnings.map(warning => (
+                      <div key={`${index}-${warning.kind}`} className="flex items-start gap-2">
+                        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                        <span>Photo {index + 1}: {warning.message}</span>
+                      </div>
+                    )))}
+                  </div>
+                )}
+
+                {photos.length < photoOptions.maxPhotos && (
                   <Button
                     type="button"
                     variant="outline"
-                    className="w-full h-32 border-dashed border-2 hover:border-primary"
+                    className={`w-full border-dashed border-2 hover:border-primary ${photos.length > 0 ? 'h-16' : 'h-32'}`}
                     onClick={() => fileInputRef.current?.click()}
+                    disabled={isProcessingPhotos}
                   >
                     <div className="text-center">
                       <Camera className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
                       <span className="text-sm text-muted-foreground">
-                        Take Photo
+                        {isProcessingPhotos ? 'Compressing...' : photos.length > 0 ? 'Add Another Photo' : 'Take Photo'}
                       </span>
                     </div>
                   </Button>
@@ -188,6 +454,7 @@ const ReportDumping: React.FC<ReportDumpingProps> = ({
                   type="file"
                   accept="image/*"
                   capture="environment"
+                  multiple
                   onChange={handlePhotoCapture}
                   className="hidden"
                 />
@@ -201,26 +468,154 @@ const ReportDumping: React.FC<ReportDumpingProps> = ({
                   <div className="flex items-center gap-2 p-3 bg-success/10 text-success rounded-lg">
                     <CheckCircle className="h-5 w-5" />
                     <span className="text-sm font-medium">
-                      Location captured: {location.lat.toFixed(6)}, {location.lng.toFixed(6)}
+                      Location captured: {formatCoordinates(location.lat, location.lng)}
+                      {location.accuracy !== undefined && ` (${formatAccuracy(location.accuracy)})`}
                     </span>
                   </div>
+                ) : isLocating ? (
+                  <LocationFixPanel
+                    status={locationFix.status}
+                    fix={locationFix.fix}
+                    error={locationFix.error}
+                    threshold={locationFix.threshold}
+                    onAccept={locationFix.accept}
+                    onRetry={locationFix.retry}
+                  />
                 ) : (
                   <Button
                     type="button"
                     variant="outline"
-                    onClick={getLocation}
-                    disabled={isGettingLocation}
+                    onClick={() => setIsLocating(true)}
                     className="w-full"
                   >
                     <MapPin className="mr-2 h-4 w-4" />
-                    {isGettingLocation ? 'Getting Location...' : 'Capture Current Location'}
+                    Capture Current Location
                   </Button>
                 )}
+                <WardCheckWarning check={wardCheck} />
+              </div>
+
+              {/* Nearby Reports */}
+              {nearbyReports.length > 0 && (
+                <div className="space-y-3">
+                  <div className="p-3 bg-warning/10 text-warning rounded-lg text-sm flex items-start gap-2">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    <span>
+                      {nearbyReports.length === 1 ? 'An open report is' : `${nearbyReports.length} open reports are`} already
+                      close by. If it's the same pile, add your photos to it instead.
+                    </span>
+                  </div>
+                  {nearbyReports.map(({ report, distanceMeters }) => (
+                    <div key={report.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                      <div className="min-w-0 text-sm">
+                        <div className="font-medium truncate">
+                          {report.description || `Report #${report.id?.slice(-6)}`}
+                        </div>
+                        <div className="text-xs text-muted-foreground flex items-center gap-2">
+                          <span>{Math.round(distanceMeters)} m away</span>
+                          <span>{report.status}</span>
+                          <span>{formatTimestamp(report.timestamp)}</span>
+                          {(report.confirmations?.length || 0) > 0 && (
+                            <span className="flex items-center gap-1">
+                              <Users className="h-3 w-3" />
+                              +{report.confirmations.length}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() => addToReport(report)}
+                        disabled={isSubmitting}
+                      >
+                        <PlusCircle className="mr-1 h-4 w-4" />
+                        Add
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Details */}
+              <div className="space-y-2">
+                <Label>What was dumped?</Label>
+                <div className="grid grid-cols-3 gap-2">
+                  {DUMPING_CATEGORIES.map(option => (
+                    <Button
+                      key={option.category}
+                      type="button"
+                      variant={category === option.category ? 'default' : 'outline'}
+                      className="h-auto flex-col py-2 px-1 text-center whitespace-normal"
+                      onClick={() => setCategory(option.category)}
+                    >
+                      <span className="text-xs font-medium">{option.category}</span>
+                      <span className="text-[10px] font-normal opacity-80">{option.description}</span>
+                    </Button>
+                  ))}
+                </div>
+                {detailErrors.category && (
+                  <p className="text-xs text-destructive">{detailErrors.category}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Severity</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {REPORT_SEVERITIES.map(option => (
+                    <Button
+                      key={option.severity}
+                      type="button"
+                      variant={severity === option.severity ? 'default' : 'outline'}
+                      className="h-auto flex-col items-start py-2 text-left whitespace-normal"
+                      onClick={() => setSeverity(option.severity)}
+                    >
+                      <span className="text-sm font-medium">{option.severity}</span>
+                      <span className="text-xs font-normal opacity-80">{option.description}</span>
+                    </Button>
+                  ))}
+                </div>
+                {detailErrors.severity && (
+                  <p className="text-xs text-destructive">{detailErrors.severity}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Estimated Volume</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {VOLUME_ESTIMATES.map(option => (
+                    <Button
+                      key={option.volume}
+                      type="button"
+                      variant={volume === option.volume ? 'default' : 'outline'}
+                      className="h-auto flex-col items-start py-2 text-left whitespace-normal"
+                      onClick={() => setVolume(option.volume)}
+                    >
+                      <span className="text-sm font-medium">{option.volume}</span>
+                      <span className="text-xs font-normal opacity-80">{option.description}</span>
+                    </Button>
+                  ))}
+                </div>
+                {detailErrors.estimated_volume && (
+                  <p className="text-xs text-destructive">{detailErrors.estimated_volume}</p>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="blocking">Blocks a drain or road</Label>
+                <Switch
+                  id="blocking"
+                  checked={isBlocking}
+                  onCheckedChange={setIsBlocking}
+                />
               </div>
 
               {/* Description */}
               <div className="space-y-2">
-                <Label htmlFor="description">Description (Optional)</Label>
+                <Label htmlFor="description">
+                  {category === 'Other' ? 'Description' : 'Description (Optional)'}
+                </Label>
                 <Textarea
                   id="description"
                   placeholder="Describe the illegal dumping incident..."
@@ -228,6 +623,9 @@ const ReportDumping: React.FC<ReportDumpingProps> = ({
                   onChange={(e) => setDescription(e.target.value)}
                   rows={4}
                 />
+                {detailErrors.description && (
+                  <p className="text-xs text-destructive">{detailErrors.description}</p>
+                )}
               </div>
 
               {/* Submit Button */}
@@ -238,7 +636,7 @@ const ReportDumping: React.FC<ReportDumpingProps> = ({
                   onClick={onClose}
                   className="flex-1"
                 >
-                  Cancel
+                  {hasDraft ? 'Save Draft' : 'Cancel'}
                 </Button>
                 
                 <Button
@@ -255,11 +653,23 @@ const ReportDumping: React.FC<ReportDumpingProps> = ({
                   ) : (
                     <>
                       <Upload className="mr-2 h-4 w-4" />
-                      Submit Report
+                      {nearbyReports.length > 0 ? 'Submit as New' : 'Submit Report'}
                     </>
                   )}
                 </Button>
               </div>
+
+              {hasDraft && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={discardDraft}
+                  className="w-full text-muted-foreground"
+                >
+                  Discard draft
+                </Button>
+              )}
             </form>
           </CardContent>
         </Card>
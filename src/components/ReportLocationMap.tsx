@@ -0,0 +1,42 @@
+import React from 'react';
+import { MapContainer, Marker } from 'react-leaflet';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import CachedTileLayer from '@/components/CachedTileLayer';
+import { getMapTileConfig } from '@/utils/mapData';
+
+interface ReportLocationMapProps {
+  latitude: number;
+  longitude: number;
+}
+
+const REPORT_ICON = L.divIcon({
+  className: '',
+  html: '<span style="display:block;width:18px;height:18px;border-radius:3px;background:hsl(var(--destructive));border:2px solid white;box-shadow:0 1px 3px rgba(0,0,0,.4)"></span>',
+  iconSize: [18, 18],
+  iconAnchor: [9, 9]
+});
+
+// Street-level view of a report's location from the configured tile source, offline tiles first
+const ReportLocationMap: React.FC<ReportLocationMapProps> = ({ latitude, longitude }) => {
+  const tiles = getMapTileConfig();
+
+  return (
+    // z-0 keeps Leaflet's panes under the header and bottom navigation
+    <div className="relative z-0 h-32 rounded-lg overflow-hidden border">
+      <MapContainer
+        center={[latitude, longitude]}
+        zoom={Math.min(17, tiles.maxZoom)}
+        maxZoom={tiles.maxZoom}
+        zoomControl={false}
+        scrollWheelZoom={false}
+        className="h-full w-full"
+      >
+        <CachedTileLayer tiles={tiles} />
+        <Marker position={[latitude, longitude]} icon={REPORT_ICON} />
+      </MapContainer>
+    </div>
+  );
+};
+
+export default ReportLocationMap;
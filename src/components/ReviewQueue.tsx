@@ -0,0 +1,132 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import ReportCard from '@/components/ReportCard';
+import { CollectorAPI, type IllegalDumpingReport } from '@/utils/api';
+import { OPEN_STATUSES, computeResolutionMetrics, formatDuration } from '@/utils/reportLifecycle';
+import { sortByPriority } from '@/utils/reportDetails';
+import { ShieldCheck, RefreshCw, X } from 'lucide-react';
+
+interface ReviewQueueProps {
+  onOpenReport: (report: IllegalDumpingReport) => void;
+  onClose: () => void;
+}
+
+const ReviewQueue: React.FC<ReviewQueueProps> = ({ onOpenReport, onClose }) => {
+  const [reports, setReports] = useState<IllegalDumpingReport[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadReports = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setReports(await CollectorAPI.getAllReports());
+    } catch (error) {
+      console.error('Error loading reports:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  const metrics = useMemo(() => computeResolutionMetrics(reports), [reports]);
+  const pending = sortByPriority(reports.filter(report => report.status === 'Pending'));
+  const open = sortByPriority(reports.filter(report => OPEN_STATUSES.includes(report.status)));
+  const resolved = reports.filter(report => report.status === 'Resolved').reverse();
+
+  const handleUpdated = (updated: IllegalDumpingReport) => {
+    setReports(prev => prev.map(report => report.id === updated.id ? updated : report));
+  };
+
+  const renderList = (list: IllegalDumpingReport[], emptyText: string) => (
+    list.length > 0 ? (
+      <div className="space-y-4">
+        {list.map((report, index) => (
+          <motion.div
+            key={report.id}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.05 * index }}
+          >
+            <ReportCard report={report} onUpdated={handleUpdated} onOpenReport={onOpenReport} />
+          </motion.div>
+        ))}
+      </div>
+    ) : (
+      <p className="text-center py-8 text-muted-foreground">{isLoading ? 'Loading…' : emptyText}</p>
+    )
+  );
+
+  return (
+    <div className="space-y-6 p-4 pb-24">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5 text-primary" />
+                Dumping Reports
+              </CardTitle>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="icon" onClick={loadReports} className="h-8 w-8" disabled={isLoading}>
+                  <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="p-3 bg-muted/50 rounded-lg">
+                <p className="text-2xl font-bold text-warning">{metrics.open}</p>
+                <p className="text-xs text-muted-foreground">Open</p>
+              </div>
+              <div className="p-3 bg-muted/50 rounded-lg">
+                <p className="text-2xl font-bold text-success">{metrics.resolved}</p>
+                <p className="text-xs text-muted-foreground">Resolved</p>
+              </div>
+              <div className="p-3 bg-muted/50 rounded-lg">
+                <p className="text-2xl font-bold">{formatDuration(metrics.medianHours)}</p>
+                <p className="text-xs text-muted-foreground">Median fix</p>
+              </div>
+            </div>
+            {metrics.resolved > 0 && (
+              <p className="text-xs text-muted-foreground mt-3">
+                Average time to resolution {formatDuration(metrics.averageHours)}
+                {metrics.reopened > 0 && ` · ${metrics.reopened} needed reopening`}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      <Tabs defaultValue="review">
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="review">Review ({pending.length})</TabsTrigger>
+          <TabsTrigger value="cleanup">Cleanup ({open.length})</TabsTrigger>
+          <TabsTrigger value="resolved">Resolved</TabsTrigger>
+        </TabsList>
+        <TabsContent value="review">
+          {renderList(pending, 'No reports waiting for review')}
+        </TabsContent>
+        <TabsContent value="cleanup">
+          {renderList(open, 'No open cleanups')}
+        </TabsContent>
+        <TabsContent value="resolved">
+          {renderList(resolved, 'Nothing resolved yet')}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default ReviewQueue;
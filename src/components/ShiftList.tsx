@@ -0,0 +1,102 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CollectorAPI, formatTimestamp, type ShiftTrack } from '@/utils/api';
+import { formatDuration } from '@/utils/reportLifecycle';
+import { ChevronRight, RefreshCw, Route, X } from 'lucide-react';
+
+interface ShiftListProps {
+  onOpenShift: (track: ShiftTrack) => void;
+  onClose: () => void;
+}
+
+const getShiftHours = (track: ShiftTrack): number => {
+  const endedAt = track.ended_at ? new Date(track.ended_at).getTime() : Date.now();
+  return (endedAt - new Date(track.started_at).getTime()) / 3600000;
+};
+
+const ShiftList: React.FC<ShiftListProps> = ({ onOpenShift, onClose }) => {
+  const [tracks, setTracks] = useState<ShiftTrack[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadTracks = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setTracks(await CollectorAPI.getAllShiftTracks());
+    } catch (error) {
+      console.error('Error loading shifts:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTracks();
+  }, [loadTracks]);
+
+  return (
+    <div className="space-y-6 p-4 pb-24">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Route className="h-5 w-5 text-primary" />
+                Shift Routes
+              </CardTitle>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="icon" onClick={loadTracks} className="h-8 w-8" disabled={isLoading}>
+                  <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {tracks.length > 0 ? (
+              <div className="space-y-3">
+                {tracks.map((track, index) => (
+                  <motion.div
+                    key={track.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.05 * index }}
+                    className="flex items-center justify-between p-3 bg-muted/50 rounded-lg cursor-pointer hover:bg-muted transition-colors"
+                    onClick={() => onOpenShift(track)}
+                  >
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium">{track.collector_id}</p>
+                        {!track.ended_at && <Badge variant="secondary">Running</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {formatTimestamp(track.started_at)} · {formatDuration(getShiftHours(track))}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {track.distance_km.toFixed(2)} km · {track.offsets_s.length} points
+                      </p>
+                    </div>
+                    <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                  </motion.div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center py-8 text-muted-foreground">
+                {isLoading ? 'Loading…' : 'No shifts recorded yet'}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ShiftList;
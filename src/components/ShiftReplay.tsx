@@ -0,0 +1,317 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { MapContainer, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import CachedTileLayer from '@/components/CachedTileLayer';
+import { CollectorAPI, formatTimestamp, type CollectionLog, type ShiftTrack } from '@/utils/api';
+import { WASTE_TYPE_MAP_COLORS, getMapTileConfig } from '@/utils/mapData';
+import { formatDuration } from '@/utils/reportLifecycle';
+import {
+  getReplayFrame,
+  getShiftStops,
+  getTrackBreadcrumbs,
+  getTrackDistance,
+  type Breadcrumb,
+  type ReplayFrame
+} from '@/utils/shiftTracker';
+import { ArrowLeft, Pause, Play, Route } from 'lucide-react';
+
+interface ShiftReplayProps {
+  trackId: string;
+  onBack: () => void;
+}
+
+interface RouteLayerProps {
+  points: Breadcrumb[];
+  frame: ReplayFrame | null;
+}
+
+interface StopsLayerProps {
+  stops: CollectionLog[];
+  at: number;
+}
+
+// Replay speed as a multiple of real time
+const SPEEDS = [30, 60, 120, 300];
+const TICK_MS = 100;
+
+const formatClock = (time: number): string =>
+  new Date(time).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' });
+
+// Numbered in the order they were made, filled with the waste type colour
+const getStopIcon = (log: CollectionLog, number: number): L.DivIcon => {
+  return L.divIcon({
+    className: '',
+    html: `<span style="display:flex;align-items:center;justify-content:center;width:22px;height:22px;border-radius:50%;background:${WASTE_TYPE_MAP_COLORS[log.waste_type]};border:2px solid white;box-shadow:0 1px 3px rgba(0,0,0,.4);color:white;font-size:11px;font-weight:600">${number}</span>`,
+    iconSize: [22, 22],
+    iconAnchor: [11, 11]
+  });
+};
+
+const POSITION_ICON = L.divIcon({
+  className: '',
+  html: '<span style="display:block;width:16px;height:16px;border-radius:50%;background:hsl(var(--primary));border:3px solid white;box-shadow:0 0 0 2px hsl(var(--primary))"></span>',
+  iconSize: [16, 16],
+  iconAnchor: [8, 8]
+});
+
+// Built as DOM rather than HTML so record text can't inject markup
+const buildStopPopup = (log: CollectionLog): HTMLElement => {
+  const container = document.createElement('div');
+  const title = document.createElement('strong');
+  title.textContent = `${log.user_id} · ${log.waste_type}`;
+  const time = document.createElement('div');
+  time.textContent = formatTimestamp(log.timestamp);
+  container.append(title, time);
+  return container;
+};
+
+// The whole route faintly, the part travelled so far on top, and the collector's position
+const RouteLayer: React.FC<RouteLayerProps> = ({ points, frame }) => {
+  const map = useMap();
+  const travelledRef = useRef<L.Polyline | null>(null);
+  const markerRef = useRef<L.Marker | null>(null);
+
+  useEffect(() => {
+    if (points.length === 0) return;
+    const latLngs = points.map(point => L.latLng(point.lat, point.lng));
+    const route = L.polyline(latLngs, { className: 'stroke-muted-foreground', weight: 4, opacity: 0.5 });
+    const travelled = L.polyline([], { className: 'stroke-primary', weight: 5 });
+    const marker = L.marker(latLngs[0], { icon: POSITION_ICON, zIndexOffset: 1000 });
+    const group = L.layerGroup([route, travelled, marker]);
+    map.addLayer(group);
+    map.fitBounds(route.getBounds(), { padding: [24, 24], maxZoom: 17 });
+    travelledRef.current = travelled;
+    markerRef.current = marker;
+    return () => {
+      map.removeLayer(group);
+      travelledRef.current = null;
+      markerRef.current = null;
+    };
+  }, [map, points]);
+
+  useEffect(() => {
+    if (!frame) return;
+    travelledRef.current?.setLatLngs([
+      ...points.slice(0, frame.index + 1).map(point => L.latLng(point.lat, point.lng)),
+      L.latLng(frame.lat, frame.lng)
+    ]);
+    markerRef.current?.setLatLng([frame.lat, frame.lng]);
+  }, [points, frame]);
+
+  return null;
+};
+
+// Stops not reached yet in the replay are faded
+const StopsLayer: React.FC<StopsLayerProps> = ({ stops, at }) => {
+  const map = useMap();
+  const markersRef = useRef<L.Marker[]>([]);
+
+  useEffect(() => {
+    const markers = stops.map((log, index) => {
+      const marker = L.marker([log.latitude, log.longitude], { icon: getStopIcon(log, index + 1), title: log.user_id });
+      marker.bindPopup(() => buildStopPopup(log));
+      return marker;
+    });
+    const group = L.layerGroup(markers);
+    map.addLayer(group);
+    markersRef.current = markers;
+    return () => {
+      map.removeLayer(group);
+      markersRef.current = [];
+    };
+  }, [map, stops]);
+
+  useEffect(() => {
+    markersRef.current.forEach((marker, index) => {
+      marker.setOpacity(new Date(stops[index].timestamp).getTime() <= at ? 1 : 0.4);
+    });
+  }, [stops, at]);
+
+  return null;
+};
+
+const ShiftReplay: React.FC<ShiftReplayProps> = ({ trackId, onBack }) => {
+  const [track, setTrack] = useState<ShiftTrack | null>(null);
+  const [stops, setStops] = useState<CollectionLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [at, setAt] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(60);
+  const tiles = getMapTileConfig();
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const shift = await CollectorAPI.getShiftTrack(trackId);
+        setTrack(shift);
+        if (shift) {
+          setStops(getShiftStops(shift, await CollectorAPI.getAllCollectionLogs(shift.collector_id)));
+        }
+      } catch (error) {
+        console.error('Error loading shift:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [trackId]);
+
+  const points = useMemo(() => track ? getTrackBreadcrumbs(track) : [], [track]);
+  const startAt = points[0]?.at ?? 0;
+  const endAt = points[points.length - 1]?.at ?? 0;
+
+  // Start the replay at the first breadcrumb
+  useEffect(() => {
+    setAt(startAt);
+  }, [startAt]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => {
+      setAt(prev => Math.min(endAt, prev + TICK_MS * speed));
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, speed, endAt]);
+
+  useEffect(() => {
+    if (isPlaying && at >= endAt) setIsPlaying(false);
+  }, [isPlaying, at, endAt]);
+
+  const frame = useMemo(() => getReplayFrame(points, at), [points, at]);
+  const distanceSoFar = frame ? getTrackDistance([...points.slice(0, frame.index + 1), frame]) : 0;
+  const stopsSoFar = stops.filter(log => new Date(log.timestamp).getTime() <= at).length;
+
+  const togglePlaying = () => {
+    // Play again from the start once the end is reached
+    if (!isPlaying && at >= endAt) setAt(startAt);
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="space-y-6 p-4 pb-24">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Route className="h-5 w-5 text-primary" />
+                {track ? `Shift · ${track.collector_id}` : 'Shift'}
+              </CardTitle>
+              <Button variant="ghost" size="icon" onClick={onBack} className="h-8 w-8">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!track ? (
+              <p className="text-center py-8 text-muted-foreground">
+                {isLoading ? 'Loading…' : 'Shift not found'}
+              </p>
+            ) : (
+              <>
+                <div className="text-sm">
+                  <p>
+                    {formatTimestamp(track.started_at)}
+                    {track.ended_at ? ` – ${formatClock(new Date(track.ended_at).getTime())}` : ' · still running'}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {track.distance_km.toFixed(2)} km · {stops.length} collections · {points.length} points
+                  </p>
+                </div>
+
+                {/* z-0 keeps Leaflet's panes under the header and bottom navigation */}
+                <div className="relative z-0 h-[50vh] rounded-lg overflow-hidden border">
+                  <MapContainer center={[20.59, 78.96]} zoom={5} maxZoom={tiles.maxZoom} className="h-full w-full">
+                    <CachedTileLayer tiles={tiles} />
+                    <RouteLayer points={points} frame={frame} />
+                    <StopsLayer stops={stops} at={at} />
+                  </MapContainer>
+                </div>
+
+                {points.length > 1 ? (
+                  <div className="space-y-3">
+                    <Slider
+                      aria-label="Replay position"
+                      min={startAt}
+                      max={endAt}
+                      step={1000}
+                      value={[at]}
+                      onValueChange={([value]) => setAt(value)}
+                    />
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>{formatClock(at)} · {formatDuration((at - startAt) / 3600000)} in</span>
+                      <span>{distanceSoFar.toFixed(2)} km · {stopsSoFar} collections</span>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button className="flex-1" onClick={togglePlaying}>
+                        {isPlaying ? <Pause className="mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
+                        {isPlaying ? 'Pause' : 'Play'}
+                      </Button>
+                      <Select value={String(speed)} onValueChange={value => setSpeed(Number(value))}>
+                        <SelectTrigger className="w-28" aria-label="Replay speed">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SPEEDS.map(option => (
+                            <SelectItem key={option} value={String(option)}>{option}×</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Not enough of the route was recorded to replay it.
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      {stops.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+        >
+          <Card>
+            <CardHeader>
+              <CardTitle>Collections</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {stops.map((log, index) => (
+                <button
+                  key={log.id}
+                  type="button"
+                  className="flex w-full items-center justify-between p-3 bg-muted/50 rounded-lg text-left hover:bg-muted transition-colors"
+                  onClick={() => {
+                    setIsPlaying(false);
+                    setAt(Math.min(endAt, Math.max(startAt, new Date(log.timestamp).getTime())));
+                  }}
+                >
+                  <span className="text-sm">
+                    <span className="font-medium">{index + 1}. {log.user_id}</span> · {log.waste_type}
+                  </span>
+                  <span className="text-xs text-muted-foreground">{formatClock(new Date(log.timestamp).getTime())}</span>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default ShiftReplay;
@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useShiftTracker } from '@/hooks/use-shift-tracker';
+import { useToast } from '@/hooks/use-toast';
+import { formatTimestamp } from '@/utils/api';
+import { formatDuration } from '@/utils/reportLifecycle';
+import { ShiftTracker } from '@/utils/shiftTracker';
+import { AlertTriangle, Play, Route, Square } from 'lucide-react';
+
+interface ShiftTrackerCardProps {
+  collectorId: string;
+}
+
+const ShiftTrackerCard: React.FC<ShiftTrackerCardProps> = ({ collectorId }) => {
+  const { track, error } = useShiftTracker();
+  const [isBusy, setIsBusy] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const { toast } = useToast();
+
+  // Keep the elapsed time moving while a shift runs
+  useEffect(() => {
+    if (!track) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, [track]);
+
+  const handleStart = async () => {
+    setIsBusy(true);
+    try {
+      await ShiftTracker.start(collectorId);
+      toast({ title: 'Shift Started', description: 'Your route is being recorded' });
+    } catch (error) {
+      toast({
+        title: 'Could Not Start Shift',
+        description: error instanceof Error ? error.message : 'Unable to start the shift',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleEnd = async () => {
+    setIsBusy(true);
+    try {
+      const ended = await ShiftTracker.stop();
+      if (ended) {
+        toast({
+          title: 'Shift Ended',
+          description: `${ended.distance_km.toFixed(2)} km recorded over ${ended.offsets_s.length} points`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Could Not End Shift',
+        description: error instanceof Error ? error.message : 'Unable to end the shift',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Route className="h-5 w-5 text-primary" />
+          Shift
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {track ? (
+          <>
+            <div className="text-sm">
+              <p>
+                Started {formatTimestamp(track.started_at)} ·{' '}
+                {formatDuration((now - new Date(track.started_at).getTime()) / 3600000)}
+              </p>
+              <p className="text-muted-foreground">
+                {track.offsets_s.length > 0
+                  ? `${track.distance_km.toFixed(2)} km · ${track.offsets_s.length} points recorded`
+                  : 'Waiting for a GPS fix…'}
+              </p>
+            </div>
+            {error && (
+              <div className="flex items-start gap-2 p-3 bg-destructive/10 text-destructive rounded-lg text-sm">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              The route is only recorded while the app is open on screen.
+            </p>
+            <Button variant="outline" className="w-full" onClick={handleEnd} disabled={isBusy}>
+              <Square className="mr-2 h-4 w-4" />
+              End Shift
+            </Button>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Start your shift to record your route for your supervisor.
+            </p>
+            <Button className="w-full" onClick={handleStart} disabled={isBusy}>
+              <Play className="mr-2 h-4 w-4" />
+              Start Shift
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ShiftTrackerCard;
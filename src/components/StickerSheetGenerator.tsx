@@ -0,0 +1,247 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ULB_PUBLIC_KEYS } from '@/utils/qrKeys';
+import {
+  parseHouseholdCsv,
+  assertSigningKeyMatches,
+  generateHouseholdStickers,
+  buildStickerSheets,
+  printStickerSheets,
+  downloadStickerSheet
+} from '@/utils/qrStickers';
+import { QrCode, Upload, Printer, Download, KeyRound, X } from 'lucide-react';
+
+interface StickerSheetGeneratorProps {
+  onClose: () => void;
+}
+
+const StickerSheetGenerator: React.FC<StickerSheetGeneratorProps> = ({ onClose }) => {
+  const [csv, setCsv] = useState('');
+  const [kid, setKid] = useState(ULB_PUBLIC_KEYS[0]?.kid || '');
+  const [secretKey, setSecretKey] = useState('');
+  const [issueDate, setIssueDate] = useState(new Date().toISOString().slice(0, 10));
+  const [pages, setPages] = useState<string[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const households = useMemo(() => parseHouseholdCsv(csv), [csv]);
+  const wards = useMemo(() => Array.from(new Set(households.map(h => h.ward))), [households]);
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setCsv(await file.text());
+      setPages([]);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (households.length === 0) {
+      toast({
+        title: 'No Households',
+        description: 'Add at least one row: id, house number, address, ward',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      const key = await assertSigningKeyMatches(kid, secretKey);
+      const stickers = await generateHouseholdStickers(households, { kid, secretKey: key, issueDate });
+      const sheets = buildStickerSheets(stickers);
+      setPages(sheets);
+      toast({
+        title: 'Sticker Sheets Ready',
+        description: `${stickers.length} codes on ${sheets.length} A4 sheet${sheets.length === 1 ? '' : 's'}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Generation Failed',
+        description: error instanceof Error ? error.message : 'Unable to generate sticker sheets',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const sheetName = `stickers_${wards.join('-') || 'ward'}_${issueDate}`;
+
+  const handlePrint = () => {
+    try {
+      printStickerSheets(pages, sheetName);
+    } catch (error) {
+      toast({
+        title: 'Print Failed',
+        description: error instanceof Error ? error.message : 'Unable to open the print dialog',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6 p-4 pb-24">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <QrCode className="h-5 w-5 text-primary" />
+                Household Sticker Sheets
+              </CardTitle>
+              <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {/* Households */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="households">Households (CSV)</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  <Upload className="mr-2 h-4 w-4" />
+                  Upload CSV
+                </Button>
+              </div>
+              <Textarea
+                id="households"
+                placeholder={'id,house number,address,ward\nHH-0001,12A,"5, MG Road",W12'}
+                value={csv}
+                onChange={(e) => {
+                  setCsv(e.target.value);
+                  setPages([]);
+                }}
+                rows={6}
+                className="font-mono text-xs"
+              />
+              <p className="text-xs text-muted-foreground">
+                {households.length} household{households.length === 1 ? '' : 's'}
+                {wards.length > 0 && ` in ward ${wards.join(', ')}`}
+              </p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileUpload}
+                className="hidden"
+              />
+            </div>
+
+            {/* Signing */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Signing Key</Label>
+                <Select value={kid} onValueChange={setKid}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select key" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ULB_PUBLIC_KEYS.filter(key => !key.revoked).map(key => (
+                      <SelectItem key={key.kid} value={key.kid}>
+                        {key.kid} ({key.ulb})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="issueDate">Issue Date</Label>
+                <Input
+                  id="issueDate"
+                  type="date"
+                  value={issueDate}
+                  onChange={(e) => setIssueDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="secretKey">Secret Key</Label>
+              <Input
+                id="secretKey"
+                type="password"
+                autoComplete="off"
+                placeholder="base64url secret key for the selected key id"
+                value={secretKey}
+                onChange={(e) => setSecretKey(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <KeyRound className="h-3 w-3" />
+                Used only in this browser to sign codes; it is never stored.
+              </p>
+            </div>
+
+            <Button
+              className="w-full"
+              onClick={handleGenerate}
+              disabled={isGenerating || !secretKey || !kid}
+            >
+              <QrCode className="mr-2 h-4 w-4" />
+              {isGenerating ? 'Generating...' : 'Generate Sticker Sheets'}
+            </Button>
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      {pages.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base">
+                  {pages.length} Sheet{pages.length === 1 ? '' : 's'}
+                </CardTitle>
+                <Button size="sm" onClick={handlePrint}>
+                  <Printer className="mr-2 h-4 w-4" />
+                  Print / PDF
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {pages.map((page, index) => (
+                <div key={index} className="space-y-2">
+                  <div
+                    className="border rounded-lg overflow-hidden bg-white [&>svg]:w-full [&>svg]:h-auto"
+                    dangerouslySetInnerHTML={{ __html: page }}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => downloadStickerSheet(page, `${sheetName}_${index + 1}.svg`)}
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    Download Sheet {index + 1} (SVG)
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default StickerSheetGenerator;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useSyncStatus } from '@/hooks/use-sync-status';
+import { formatTimestamp } from '@/utils/api';
+import { Cloud, CloudOff, RefreshCw, AlertCircle } from 'lucide-react';
+
+const SyncStatus: React.FC = () => {
+  const { state, syncNow } = useSyncStatus();
+
+  if (!state) return null;
+
+  const hasError = Boolean(state.lastError) && state.pending > 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          {state.isOnline ? (
+            <Cloud className={`h-5 w-5 ${hasError ? 'text-destructive' : ''}`} />
+          ) : (
+            <CloudOff className="h-5 w-5 text-muted-foreground" />
+          )}
+          {state.pending > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-warning text-warning-foreground text-[10px] leading-4 font-semibold">
+              {state.pending}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="space-y-3">
+        <div>
+          <p className="font-medium">
+            {state.isOnline ? 'Online' : 'Offline'}
+            {state.isSyncing && ' · Syncing...'}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {state.pending > 0
+              ? `${state.pending} record${state.pending === 1 ? '' : 's'} waiting to sync`
+              : 'All records synced'}
+          </p>
+        </div>
+
+        <div className="text-sm">
+          <p className="text-muted-foreground">Last successful sync</p>
+          <p>{state.lastSuccessAt ? formatTimestamp(state.lastSuccessAt) : 'Never'}</p>
+        </div>
+
+        {state.lastError && (
+          <div className="flex items-start gap-2 p-2 bg-destructive/10 text-destructive rounded-md text-sm">
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            <div>
+              <p>{state.lastError}</p>
+              {state.lastErrorAt && (
+                <p className="text-xs opacity-80">{formatTimestamp(state.lastErrorAt)}</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <Button
+          size="sm"
+          className="w-full"
+          onClick={syncNow}
+          disabled={!state.isOnline || state.isSyncing || state.pending === 0}
+        >
+          <RefreshCw className={`mr-2 h-4 w-4 ${state.isSyncing ? 'animate-spin' : ''}`} />
+          Sync Now
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SyncStatus;
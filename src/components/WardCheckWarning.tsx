@@ -0,0 +1,24 @@
+import React from 'react';
+import type { WardCheck } from '@/utils/wards';
+import { MapPinOff } from 'lucide-react';
+
+interface WardCheckWarningProps {
+  check: WardCheck | null;
+}
+
+const WardCheckWarning: React.FC<WardCheckWarningProps> = ({ check }) => {
+  if (!check?.isOutside) return null;
+
+  return (
+    <div className="flex items-start gap-2 p-3 bg-warning/10 text-warning rounded-lg text-sm text-left">
+      <MapPinOff className="h-4 w-4 mt-0.5 shrink-0" />
+      <span>
+        {check.wardId
+          ? `This location is in ward ${check.wardId}, outside your assigned ward ${check.assignedWard}.`
+          : `This location is outside your assigned ward ${check.assignedWard}.`}
+      </span>
+    </div>
+  );
+};
+
+export default WardCheckWarning;
@@ -0,0 +1,66 @@
+import * as React from "react";
+
+import {
+  clearLocationWatch,
+  getLocationAccuracyThreshold,
+  meetsAccuracy,
+  toLocationFix,
+  watchLocation,
+  type LocationError,
+  type LocationFix
+} from "@/utils/location";
+
+// waiting: there is a fix, but it isn't accurate enough yet
+// skipped: the collector chose to go on without a location
+export type LocationFixStatus = "idle" | "locating" | "waiting" | "ready" | "unavailable" | "skipped";
+
+// Watches the location while active and settles on the first fix within the accuracy threshold,
+// or on whatever the collector accepts before then
+export function useLocationFix(active: boolean) {
+  const threshold = getLocationAccuracyThreshold();
+  const [fix, setFix] = React.useState<LocationFix | null>(null);
+  const [error, setError] = React.useState<LocationError | null>(null);
+  const [accepted, setAccepted] = React.useState(false);
+  const [attempt, setAttempt] = React.useState(0);
+  const isSettled = accepted || (!!fix && meetsAccuracy(fix, threshold));
+
+  React.useEffect(() => {
+    if (active) return;
+    setFix(null);
+    setError(null);
+    setAccepted(false);
+  }, [active]);
+
+  React.useEffect(() => {
+    if (!active || isSettled) return;
+    const requestedAt = Date.now();
+    const watchId = watchLocation(
+      (location) => {
+        setError(null);
+        // Keep the most accurate fix so far
+        const next = toLocationFix(location, requestedAt);
+        setFix(prev => (prev && (prev.accuracy ?? Infinity) < (next.accuracy ?? Infinity) ? prev : next));
+      },
+      setError
+    );
+    return () => {
+      if (watchId !== null) clearLocationWatch(watchId);
+    };
+  }, [active, isSettled, attempt]);
+
+  let status: LocationFixStatus = "locating";
+  if (!active) status = "idle";
+  else if (accepted && !fix) status = "skipped";
+  else if (isSettled) status = "ready";
+  else if (fix) status = "waiting";
+  else if (error) status = "unavailable";
+
+  const accept = React.useCallback(() => setAccepted(true), []);
+  const retry = React.useCallback(() => {
+    setError(null);
+    setAccepted(false);
+    setAttempt(value => value + 1);
+  }, []);
+
+  return { fix, status, error, threshold, accept, retry };
+}
@@ -0,0 +1,15 @@
+import * as React from "react";
+
+import { ShiftTracker, type ShiftTrackerState } from "@/utils/shiftTracker";
+
+// Live state of the shift running on this device
+export function useShiftTracker() {
+  const [state, setState] = React.useState<ShiftTrackerState>(() => ShiftTracker.getState());
+
+  React.useEffect(() => {
+    setState(ShiftTracker.getState());
+    return ShiftTracker.subscribe(setState);
+  }, []);
+
+  return state;
+}
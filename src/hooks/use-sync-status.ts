@@ -0,0 +1,20 @@
+import * as React from "react";
+
+import { CollectorAPI } from "@/utils/api";
+import type { SyncState } from "@/utils/sync";
+
+// Live sync engine state; null when syncing is not configured
+export function useSyncStatus() {
+  const engine = CollectorAPI.getSyncEngine();
+  const [state, setState] = React.useState<SyncState | null>(() => engine?.getState() ?? null);
+
+  React.useEffect(() => {
+    if (!engine) return;
+    setState(engine.getState());
+    return engine.subscribe(setState);
+  }, [engine]);
+
+  const syncNow = React.useCallback(() => engine?.syncNow(true), [engine]);
+
+  return { state, syncNow };
+}
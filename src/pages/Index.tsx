@@ -1,68 +1,99 @@
-import React, { useState } from 'react';
-import { motion } from 'framer-motion';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Routes, Route, Navigate, useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { useToast } from '@/hooks/use-toast';
 import Dashboard from '@/components/Dashboard';
 import QRScanner from '@/components/QRScanner';
 import ReportDumping from '@/components/ReportDumping';
-import { CollectorAPI, type WasteType } from '@/utils/api';
-import { Scan, AlertTriangle, LogOut, User, Leaf } from 'lucide-react';
+import SyncStatus from '@/components/SyncStatus';
+import StickerSheetGenerator from '@/components/StickerSheetGenerator';
+import CollectionEntry from '@/components/CollectionEntry';
+import HouseholdDetail from '@/components/HouseholdDetail';
+import ReviewQueue from '@/components/ReviewQueue';
+import ReportCleanup from '@/components/ReportCleanup';
+import ReportDetail from '@/components/ReportDetail';
+import CollectionMap from '@/components/CollectionMap';
+import ShiftList from '@/components/ShiftList';
+import ShiftReplay from '@/components/ShiftReplay';
+import NotFound from './NotFound';
+import { CollectorAPI, type IllegalDumpingReport } from '@/utils/api';
+import type { HouseholdLookup } from '@/utils/households';
+import { ReportDrafts, type ReportDraft } from '@/utils/reportDrafts';
+import { ShiftTracker } from '@/utils/shiftTracker';
+import { Scan, AlertTriangle, LogOut, User, Leaf, QrCode, ShieldCheck, Map as MapIcon, Route as RouteIcon } from 'lucide-react';
 
 interface IndexProps {
   collectorId: string;
   onLogout: () => void;
 }
 
+// Route params are read here so the screens keep taking plain props
+const HouseholdRoute: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { id } = useParams();
+  return <HouseholdDetail key={id} householdId={id} onClose={onClose} />;
+};
+
+const ReportRoute: React.FC<{
+  version: number;
+  onOpenReport: (report: IllegalDumpingReport) => void;
+  onClose: () => void;
+}> = ({ version, onOpenReport, onClose }) => {
+  const { id } = useParams();
+  return <ReportDetail key={`${id}-${version}`} reportId={id} onOpenReport={onOpenReport} onClose={onClose} />;
+};
+
+const ShiftRoute: React.FC<{ onBack: () => void }> = ({ onBack }) => {
+  const { id } = useParams();
+  return <ShiftReplay key={id} trackId={id} onBack={onBack} />;
+};
+
 const Index: React.FC<IndexProps> = ({ collectorId, onLogout }) => {
-  const [activeView, setActiveView] = useState<'dashboard' | 'scanner' | 'report'>('dashboard');
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const [searchParams] = useSearchParams();
   const [showWasteSelector, setShowWasteSelector] = useState(false);
   const [scannedUserId, setScannedUserId] = useState<string | null>(null);
-  const [scanLocation, setScanLocation] = useState<{ lat: number; lng: number } | null>(null);
-  const { toast } = useToast();
+  const [householdLookup, setHouseholdLookup] = useState<HouseholdLookup | null>(null);
+  const [cleanupReport, setCleanupReport] = useState<IllegalDumpingReport | null>(null);
+  const [reportsVersion, setReportsVersion] = useState(0);
+  const isSupervisor = CollectorAPI.isSupervisor();
 
-  const handleScanSuccess = (userId: string, location?: { lat: number; lng: number }) => {
+  // /report?draft=<id> resumes a saved draft
+  const draftId = pathname === '/report' ? searchParams.get('draft') : null;
+  const reportDraft = useMemo(() => draftId ? ReportDrafts.get(draftId) : null, [draftId]);
+
+  // Keep recording a shift that was running when the app was closed
+  useEffect(() => {
+    ShiftTracker.resume(collectorId).catch(error => console.warn('Could not resume shift tracking:', error));
+  }, [collectorId]);
+
+  const goToDashboard = () => navigate('/dashboard');
+
+  const handleScanSuccess = (userId: string, household?: HouseholdLookup) => {
     setScannedUserId(userId);
-    setScanLocation(location || null);
-    setActiveView('dashboard');
+    setHouseholdLookup(household || null);
+    // The scanner is done with, so Back shouldn't reopen the camera
+    navigate('/dashboard', { replace: true });
     setShowWasteSelector(true);
   };
 
-  const handleWasteTypeSelect = async (wasteType: WasteType) => {
-    if (!scannedUserId) return;
-
-    try {
-      await CollectorAPI.logCollection({
-        collector_id: collectorId,
-        user_id: scannedUserId,
-        waste_type: wasteType,
-        timestamp: new Date().toISOString(),
-        latitude: scanLocation?.lat || 0,
-        longitude: scanLocation?.lng || 0
-      });
-
-      toast({
-        title: 'Collection Logged!',
-        description: `${wasteType} waste collection recorded for user ${scannedUserId}`,
-      });
-    } catch (error) {
-      toast({
-        title: 'Error',
-        description: 'Failed to log collection',
-        variant: 'destructive'
-      });
-    }
-
+  const closeWasteSelector = () => {
     setShowWasteSelector(false);
     setScannedUserId(null);
-    setScanLocation(null);
+    setHouseholdLookup(null);
   };
 
-  const wasteTypes: { type: WasteType; icon: string; color: string }[] = [
-    { type: 'Dry', icon: '📄', color: 'waste-dry' },
-    { type: 'Wet', icon: '🍎', color: 'waste-wet' },
-    { type: 'Recyclable', icon: '♻️', color: 'waste-recyclable' },
-    { type: 'Other', icon: '🗑️', color: 'waste-other' }
-  ];
+  // Open the report form, empty or from a saved draft
+  const openReport = (draft: ReportDraft | null = null) => {
+    navigate(draft ? `/report?draft=${encodeURIComponent(draft.id)}` : '/report');
+  };
+
+  const openHousehold = (householdId: string) => {
+    navigate(`/households/${encodeURIComponent(householdId)}`);
+  };
+
+  const viewReport = (report: IllegalDumpingReport) => {
+    navigate(`/reports/${encodeURIComponent(report.id)}`);
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-muted/20 to-primary/5">
@@ -78,87 +109,205 @@ const Index: React.FC<IndexProps> = ({ collectorId, onLogout }) => {
               <p className="text-sm text-muted-foreground">Collector: {collectorId}</p>
             </div>
           </div>
-          
-          <Button variant="ghost" size="icon" onClick={onLogout}>
-            <LogOut className="h-5 w-5" />
-          </Button>
+
+          <div className="flex items-center gap-1">
+            <SyncStatus />
+            {isSupervisor && (
+              <Button
+                variant={pathname === '/review' ? 'secondary' : 'ghost'}
+                size="icon"
+                onClick={() => navigate('/review')}
+              >
+                <ShieldCheck className="h-5 w-5" />
+              </Button>
+            )}
+            {isSupervisor && (
+              <Button
+                variant={pathname.startsWith('/shifts') ? 'secondary' : 'ghost'}
+                size="icon"
+                onClick={() => navigate('/shifts')}
+              >
+                <RouteIcon className="h-5 w-5" />
+              </Button>
+            )}
+            <Button
+              variant={pathname === '/map' ? 'secondary' : 'ghost'}
+              size="icon"
+              onClick={() => navigate('/map')}
+            >
+              <MapIcon className="h-5 w-5" />
+            </Button>
+            {isSupervisor && (
+              <Button
+                variant={pathname === '/stickers' ? 'secondary' : 'ghost'}
+                size="icon"
+                onClick={() => navigate('/stickers')}
+              >
+                <QrCode className="h-5 w-5" />
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" onClick={onLogout}>
+              <LogOut className="h-5 w-5" />
+            </Button>
+          </div>
         </div>
       </div>
 
       {/* Main Content */}
-      {activeView === 'dashboard' && <Dashboard collectorId={collectorId} />}
+      <Routes>
+        <Route
+          path="/dashboard"
+          element={
+            <Dashboard
+              key={reportsVersion}
+              collectorId={collectorId}
+              onSelectHousehold={openHousehold}
+              onOpenReport={setCleanupReport}
+              onViewReport={viewReport}
+              onResumeDraft={openReport}
+            />
+          }
+        />
 
-      {/* Scanner */}
-      {activeView === 'scanner' && (
-        <QRScanner
-          onScanSuccess={handleScanSuccess}
-          onClose={() => setActiveView('dashboard')}
+        {/* Supervisor review of dumping reports */}
+        <Route
+          path="/review"
+          element={isSupervisor ? (
+            <ReviewQueue
+              key={reportsVersion}
+              onOpenReport={setCleanupReport}
+              onClose={goToDashboard}
+            />
+          ) : (
+            <Navigate to="/dashboard" replace />
+          )}
         />
-      )}
 
-      {/* Report Dumping */}
-      {activeView === 'report' && (
-        <ReportDumping
+        {/* Supervisor replay of collectors' shift routes */}
+        <Route
+          path="/shifts"
+          element={isSupervisor ? (
+            <ShiftList
+              onOpenShift={track => navigate(`/shifts/${encodeURIComponent(track.id)}`)}
+              onClose={goToDashboard}
+            />
+          ) : (
+            <Navigate to="/dashboard" replace />
+          )}
+        />
+        <Route
+          path="/shifts/:id"
+          element={isSupervisor ? (
+            <ShiftRoute onBack={() => navigate('/shifts')} />
+          ) : (
+            <Navigate to="/dashboard" replace />
+          )}
+        />
+
+        {/* A single dumping report, e.g. from a shared link */}
+        <Route
+          path="/reports/:id"
+          element={<ReportRoute version={reportsVersion} onOpenReport={setCleanupReport} onClose={goToDashboard} />}
+        />
+
+        {/* Collections and reports on a map */}
+        <Route
+          path="/map"
+          element={
+            <CollectionMap
+              collectorId={collectorId}
+              onOpenReport={viewReport}
+              onSelectHousehold={openHousehold}
+              onClose={goToDashboard}
+            />
+          }
+        />
+
+        {/* Household compliance */}
+        <Route path="/households/:id" element={<HouseholdRoute onClose={goToDashboard} />} />
+
+        {/* Household QR sticker sheets, signed with the ULB key */}
+        <Route
+          path="/stickers"
+          element={isSupervisor ? (
+            <StickerSheetGenerator onClose={goToDashboard} />
+          ) : (
+            <Navigate to="/dashboard" replace />
+          )}
+        />
+
+        {/* Scanner */}
+        <Route
+          path="/scan"
+          element={<QRScanner onScanSuccess={handleScanSuccess} onClose={goToDashboard} />}
+        />
+
+        {/* Report Dumping */}
+        <Route
+          path="/report"
+          element={
+            <ReportDumping
+              key={reportDraft?.id || 'new'}
+              collectorId={collectorId}
+              draft={reportDraft}
+              onReportSubmitted={() => navigate('/dashboard', { replace: true })}
+              onClose={goToDashboard}
+            />
+          }
+        />
+
+        <Route path="*" element={<NotFound />} />
+      </Routes>
+
+      {/* Collection Entry Modal */}
+      {showWasteSelector && scannedUserId && (
+        <CollectionEntry
           collectorId={collectorId}
-          onReportSubmitted={() => setActiveView('dashboard')}
-          onClose={() => setActiveView('dashboard')}
+          userId={scannedUserId}
+          household={householdLookup}
+          onLogged={closeWasteSelector}
+          onClose={closeWasteSelector}
+          onViewHousehold={() => {
+            openHousehold(scannedUserId);
+            closeWasteSelector();
+          }}
         />
       )}
 
-      {/* Waste Type Selector Modal */}
-      {showWasteSelector && (
-        <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-          <motion.div
-            initial={{ opacity: 0, scale: 0.9 }}
-            animate={{ opacity: 1, scale: 1 }}
-            className="bg-card rounded-lg p-6 max-w-sm w-full"
-          >
-            <h3 className="text-lg font-semibold mb-4 text-center">Select Waste Type</h3>
-            <p className="text-sm text-muted-foreground mb-6 text-center">
-              User: {scannedUserId}
-            </p>
-            
-            <div className="grid grid-cols-2 gap-3">
-              {wasteTypes.map((waste) => (
-                <Button
-                  key={waste.type}
-                  onClick={() => handleWasteTypeSelect(waste.type)}
-                  className={`h-20 flex-col gap-2 ${waste.color} text-white hover:opacity-90`}
-                >
-                  <span className="text-2xl">{waste.icon}</span>
-                  <span className="text-sm font-medium">{waste.type}</span>
-                </Button>
-              ))}
-            </div>
-          </motion.div>
-        </div>
+      {/* Cleanup of an assigned dumping report */}
+      {cleanupReport && (
+        <ReportCleanup
+          report={cleanupReport}
+          onUpdated={() => setReportsVersion(version => version + 1)}
+          onClose={() => setCleanupReport(null)}
+        />
       )}
 
       {/* Bottom Navigation */}
       <div className="fixed bottom-0 left-0 right-0 bg-card/80 backdrop-blur-md border-t border-border p-4">
         <div className="flex justify-around">
           <Button
-            variant={activeView === 'dashboard' ? 'default' : 'ghost'}
+            variant={pathname === '/dashboard' ? 'default' : 'ghost'}
             className="flex-1 mx-1"
-            onClick={() => setActiveView('dashboard')}
+            onClick={goToDashboard}
           >
             <User className="mr-2 h-5 w-5" />
             Dashboard
           </Button>
-          
+
           <Button
             variant="default"
             className="flex-1 mx-1 bg-gradient-to-r from-primary to-primary-hover"
-            onClick={() => setActiveView('scanner')}
+            onClick={() => navigate('/scan')}
           >
             <Scan className="mr-2 h-5 w-5" />
             Scan QR
           </Button>
-          
+
           <Button
-            variant={activeView === 'report' ? 'default' : 'ghost'}
+            variant={pathname === '/report' ? 'default' : 'ghost'}
             className="flex-1 mx-1"
-            onClick={() => setActiveView('report')}
+            onClick={() => openReport()}
           >
             <AlertTriangle className="mr-2 h-5 w-5" />
             Report
@@ -1,80 +1,164 @@
 // API utilities for SwachhSathi Collector App
-// Ready for Supabase integration
+// Storage backend is pluggable, see dataStore.ts
+
+import { createDataStore, getDataStoreConfig, supportsOutbox, type CollectorDataStore, type OutboxKind } from './dataStore';
+import { SyncEngine, getSyncServer } from './sync';
+import { generateUuidV7 } from './ids';
+import type { OverrideReasonCode } from './collectionRules';
+import type { PhotoMetadata } from './photoMetadata';
+import type { LocationSource } from './location';
+import { CREW_STATUSES, SUPERVISOR_STATUSES, canTransition } from './reportLifecycle';
+import { validateReportDetails, type DumpingCategory, type ReportSeverity, type VolumeEstimate } from './reportDetails';
+import { TileCache } from './tileCache';
 
 export interface CollectionLog {
   id?: string;
   collector_id: string;
   user_id: string;
-  waste_type: WasteType;
+  waste_type: WasteType; // Primary type; the first entry of items when present
+  items?: CollectionItem[];
   timestamp: string;
-  latitude: number;
-  longitude: number;
+  latitude: number | null; // null when no fix was available (0,0 on older records)
+  longitude: number | null;
+  location_accuracy_m?: number;
+  location_age_s?: number; // Age of the fix when the record was made
+  location_source?: LocationSource;
+  ward_id?: string; // Ward whose boundary contains the location, see wards.ts
   notes?: string;
+  segregation_grade?: SegregationGrade; // How well the household separated its waste
+  photo_base64?: string; // Segregation evidence, handled like a report photo
+  photo_id?: string;
+  override_reason?: OverrideReasonCode; // Why a collection rule was overridden
+  override_rule_ids?: string[];
+  synced?: boolean; // Set when queued for the sync engine
 }
 
 export interface IllegalDumpingReport {
   id?: string;
   collector_id: string;
   photo_url?: string;
-  photo_base64?: string; // For prototype without storage
+  photo_base64?: string; // Single photo on reports filed before multi-photo support
+  photo_id?: string; // Photo kept by the data store, see CollectorAPI.getRecordPhoto
+  photos_base64?: string[]; // In display order; holds photos not yet moved into the store's photo storage
+  photo_ids?: string[]; // Photos kept by the data store, in display order before any inline ones
+  photo_metadata?: PhotoMetadata[]; // EXIF read before compression, in the same order as the photos
+  confirmations?: ReportConfirmation[]; // Other collectors who found the same pile
+  // Checked by validateReportDetails when filed; missing on reports from before categories
+  category?: DumpingCategory;
+  severity?: ReportSeverity;
+  estimated_volume?: VolumeEstimate;
+  blocks_drain_or_road?: boolean;
   description?: string;
   timestamp: string;
-  latitude: number;
-  longitude: number;
-  status: 'Pending' | 'Verified' | 'Rejected';
+  latitude: number | null; // null when no fix was available (0,0 on older records)
+  longitude: number | null;
+  location_accuracy_m?: number;
+  location_age_s?: number; // Age of the fix when the record was made
+  location_source?: LocationSource;
+  ward_id?: string; // Ward whose boundary contains the location, see wards.ts
+  status: ReportStatus;
+  status_history?: ReportStatusChange[]; // Oldest first
+  assigned_crew?: string; // Cleanup crew, set when the report is Assigned
+  after_photo_base64?: string; // Site after cleanup, required to resolve
+  after_photo_id?: string;
+  synced?: boolean; // Set when queued for the sync engine
+}
+
+// A collector's route over one shift, recorded by ShiftTracker (see shiftTracker.ts)
+export interface ShiftTrack {
+  id?: string;
+  collector_id: string;
+  started_at: string;
+  ended_at?: string; // Missing while the shift is running
+  polyline: string; // Breadcrumbs as an encoded polyline, 5 decimal places
+  offsets_s: number[]; // Seconds from started_at to each breadcrumb
+  distance_km: number;
+  synced?: boolean; // Set when queued for the sync engine
+}
+
+// Lifecycle and allowed transitions are in reportLifecycle.ts
+export type ReportStatus =
+  | 'Pending'
+  | 'Verified'
+  | 'Rejected'
+  | 'Assigned'
+  | 'Cleanup In Progress'
+  | 'Resolved'
+  | 'Reopened';
+
+// Who moved a report to a status, and why
+export interface ReportStatusChange {
+  status: ReportStatus;
+  changed_by: string;
+  changed_at: string;
+  reason?: string;
+  crew?: string; // Crew the report was assigned to
+}
+
+export interface ReportConfirmation {
+  collector_id: string;
+  confirmed_at: string;
+  photo_count: number; // Photos they added to the report
+  note?: string;
+}
+
+export interface ReportStatusDetails {
+  reason?: string;
+  crew?: string;
+  after_photo_base64?: string;
 }
 
 export type WasteType = 'Dry' | 'Wet' | 'Recyclable' | 'Other';
 
+export type SegregationGrade = 'Segregated' | 'Partially Mixed' | 'Fully Mixed' | 'Refused';
+
+export const SEGREGATION_GRADES: { grade: SegregationGrade; description: string }[] = [
+  { grade: 'Segregated', description: 'Wet and dry kept fully separate' },
+  { grade: 'Partially Mixed', description: 'Some items in the wrong bag' },
+  { grade: 'Fully Mixed', description: 'No separation at all' },
+  { grade: 'Refused', description: 'Household refused to segregate' }
+];
+
+// One bag (or set of bags) of a single waste type collected in a scan
+export interface CollectionItem {
+  waste_type: WasteType;
+  weight_kg?: number;
+  bag_count?: number;
+}
+
+export type CollectorRole = 'collector' | 'supervisor';
+
 export interface Collector {
   id: string;
   name: string;
   phone?: string;
   area?: string;
+  role?: CollectorRole; // Missing on sessions saved before roles existed
   is_active: boolean;
 }
 
-// Prototype storage (replace with Supabase calls)
-class LocalStorage {
-  private static getItem<T>(key: string): T[] {
-    const item = localStorage.getItem(key);
-    return item ? JSON.parse(item) : [];
-  }
-
-  private static setItem<T>(key: string, data: T[]): void {
-    localStorage.setItem(key, JSON.stringify(data));
-  }
-
-  static getCollectionLogs(): CollectionLog[] {
-    return this.getItem<CollectionLog>('collection_logs');
-  }
-
-  static addCollectionLog(log: Omit<CollectionLog, 'id'>): CollectionLog {
-    const logs = this.getCollectionLogs();
-    const newLog: CollectionLog = {
-      ...log,
-      id: `log_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    };
-    logs.push(newLog);
-    this.setItem('collection_logs', logs);
-    return newLog;
-  }
+export interface Household {
+  id: string;
+  name: string;
+  house_number?: string;
+  address: string;
+  ward: string;
+  is_active: boolean;
+  updated_at?: string;
+}
 
-  static getIllegalDumpingReports(): IllegalDumpingReport[] {
-    return this.getItem<IllegalDumpingReport>('dumping_reports');
-  }
+// Supervisors are set per deployment with VITE_SUPERVISOR_IDS (comma-separated collector IDs);
+// the role is never taken from the device, so a collector can't make themselves one
+export const getSupervisorIds = (): string[] => {
+  return (import.meta.env.VITE_SUPERVISOR_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+};
 
-  static addDumpingReport(report: Omit<IllegalDumpingReport, 'id'>): IllegalDumpingReport {
-    const reports = this.getIllegalDumpingReports();
-    const newReport: IllegalDumpingReport = {
-      ...report,
-      id: `report_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    };
-    reports.push(newReport);
-    this.setItem('dumping_reports', reports);
-    return newReport;
-  }
+const getCollectorRole = (collectorId: string): CollectorRole => {
+  return getSupervisorIds().includes(collectorId) ? 'supervisor' : 'collector';
+};
 
+// Session storage for the signed-in collector (always device-local)
+class CollectorSession {
   static getCurrentCollector(): Collector | null {
     const collectorData = localStorage.getItem('current_collector');
     return collectorData ? JSON.parse(collectorData) : null;
@@ -89,66 +173,351 @@ class LocalStorage {
   }
 }
 
-// API class (ready for Supabase integration)
+// API class; records go through whichever CollectorDataStore is configured
 export class CollectorAPI {
+  private static dataStore: CollectorDataStore | null = null;
+  private static syncEngine: SyncEngine | null | undefined;
+
+  static getDataStore(): CollectorDataStore {
+    if (!this.dataStore) {
+      this.dataStore = createDataStore(getDataStoreConfig());
+    }
+    return this.dataStore;
+  }
+
+  // Swap the backend at runtime (e.g. a dev stand-in server)
+  static setDataStore(store: CollectorDataStore): void {
+    this.syncEngine?.stop();
+    this.syncEngine = undefined;
+    this.dataStore = store;
+  }
+
+  // Only on-device stores sync, and only when a sync server is configured
+  static getSyncEngine(): SyncEngine | null {
+    if (this.syncEngine === undefined) {
+      const store = this.getDataStore();
+      const server = getSyncServer();
+      this.syncEngine = server && supportsOutbox(store) ? new SyncEngine(store, server) : null;
+    }
+    return this.syncEngine;
+  }
+
   // Authentication
   static async login(collectorId: string): Promise<Collector> {
     // Prototype: Create/retrieve collector
-    const existing = LocalStorage.getCurrentCollector();
-    if (existing && existing.id === collectorId) {
+    const role = getCollectorRole(collectorId);
+    const existing = CollectorSession.getCurrentCollector();
+    if (existing && existing.id === collectorId && (existing.role || 'collector') === role) {
       return existing;
     }
 
     const collector: Collector = {
       id: collectorId,
-      name: `Collector ${collectorId}`,
+      name: role === 'supervisor' ? `Supervisor ${collectorId}` : `Collector ${collectorId}`,
+      role,
       is_active: true
     };
 
-    LocalStorage.setCurrentCollector(collector);
+    CollectorSession.setCurrentCollector(collector);
     return collector;
   }
 
   static logout(): void {
-    LocalStorage.clearCurrentCollector();
+    CollectorSession.clearCurrentCollector();
   }
 
   static getCurrentCollector(): Collector | null {
-    return LocalStorage.getCurrentCollector();
+    return CollectorSession.getCurrentCollector();
+  }
+
+  // Checked against the configured list, not the saved session, which the device can edit
+  static isSupervisor(): boolean {
+    const collector = CollectorSession.getCurrentCollector();
+    return !!collector && getCollectorRole(collector.id) === 'supervisor';
+  }
+
+  // Assigned ward for the signed-in collector
+  static setCollectorArea(area: string): Collector | null {
+    const collector = CollectorSession.getCurrentCollector();
+    if (!collector) return null;
+
+    const updated = { ...collector, area };
+    CollectorSession.setCurrentCollector(updated);
+    // Offline map tiles were for the old ward
+    TileCache.evictIfStale(area).catch(error => console.warn('Could not clear offline map tiles:', error));
+    return updated;
   }
 
   // Collection logs
   static async logCollection(data: Omit<CollectionLog, 'id'>): Promise<CollectionLog> {
-    // TODO: Replace with Supabase call
-    // const { data, error } = await supabase.from('collection_logs').insert([data]);
-    return LocalStorage.addCollectionLog(data);
+    const sync = this.getSyncEngine();
+    const log = await this.getDataStore().addCollectionLog({
+      ...data,
+      id: generateUuidV7(),
+      ...(sync ? { synced: false } : {})
+    });
+    await sync?.enqueue('collection_log', log.id);
+    return log;
   }
 
   static async getCollectionLogs(collectorId?: string): Promise<CollectionLog[]> {
-    // TODO: Replace with Supabase call
-    const logs = LocalStorage.getCollectionLogs();
-    return collectorId 
-      ? logs.filter(log => log.collector_id === collectorId)
-      : logs;
+    return this.getDataStore().getCollectionLogs(collectorId);
+  }
+
+  // Collections by one collector from the sync server when it is reachable, plus any on this device
+  // not pushed yet, oldest first
+  static async getAllCollectionLogs(collectorId: string): Promise<CollectionLog[]> {
+    let logs = await this.getDataStore().getCollectionLogs(collectorId);
+    const server = getSyncServer();
+    if (server) {
+      try {
+        const remote = await server.getCollectionLogs(collectorId);
+        const remoteIds = new Set(remote.map(log => log.id));
+        logs = [...remote, ...logs.filter(log => !remoteIds.has(log.id))];
+      } catch (error) {
+        console.warn('Sync server unreachable, showing collections on this device only:', error);
+      }
+    }
+
+    return logs.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
   }
 
   // Illegal dumping reports
   static async reportIllegalDumping(data: Omit<IllegalDumpingReport, 'id'>): Promise<IllegalDumpingReport> {
-    // TODO: Replace with Supabase call + file upload
-    return LocalStorage.addDumpingReport(data);
+    const { errors } = validateReportDetails(data);
+    const problem = Object.values(errors)[0];
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const sync = this.getSyncEngine();
+    const report = await this.getDataStore().addDumpingReport({
+      ...data,
+      id: generateUuidV7(),
+      ...(sync ? { synced: false } : {})
+    });
+    await sync?.enqueue('dumping_report', report.id);
+    return report;
   }
 
   static async getDumpingReports(collectorId?: string): Promise<IllegalDumpingReport[]> {
-    // TODO: Replace with Supabase call
-    const reports = LocalStorage.getIllegalDumpingReports();
-    return collectorId 
-      ? reports.filter(report => report.collector_id === collectorId)
-      : reports;
+    return this.getDataStore().getDumpingReports(collectorId);
+  }
+
+  // Reports from every collector on the sync server when one is reachable, plus any on
+  // this device not pushed yet, oldest first
+  static async getAllReports(): Promise<IllegalDumpingReport[]> {
+    let reports = await this.getDataStore().getDumpingReports();
+    const server = getSyncServer();
+    if (server) {
+      try {
+        const remote = await server.getDumpingReports();
+        const remoteIds = new Set(remote.map(report => report.id));
+        reports = [...remote, ...reports.filter(report => !remoteIds.has(report.id))];
+      } catch (error) {
+        console.warn('Sync server unreachable, showing reports on this device only:', error);
+      }
+    }
+
+    return reports.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
+  // The copy on this device when there is one, otherwise the sync server's
+  static async getReport(id: string): Promise<IllegalDumpingReport | null> {
+    const local = await this.getDataStore().getDumpingReport(id);
+    if (local) return local;
+
+    const server = getSyncServer();
+    return server ? server.getDumpingReport(id) : null;
+  }
+
+  // Move a report along its lifecycle, appending to its status history
+  static async updateReportStatus(
+    report: IllegalDumpingReport,
+    status: ReportStatus,
+    details: ReportStatusDetails = {}
+  ): Promise<IllegalDumpingReport> {
+    const user = CollectorSession.getCurrentCollector();
+    if (!user) {
+      throw new Error('Sign in to update reports');
+    }
+    if (SUPERVISOR_STATUSES.includes(status) && !this.isSupervisor()) {
+      throw new Error(`Only supervisors can mark reports ${status}`);
+    }
+    if (CREW_STATUSES.includes(status) && (!report.assigned_crew || report.assigned_crew !== user.id)) {
+      throw new Error(`Only the assigned crew can mark reports ${status}`);
+    }
+    if (!canTransition(report.status, status)) {
+      throw new Error(`A ${report.status} report can't be marked ${status}`);
+    }
+    if (status === 'Assigned' && !details.crew) {
+      throw new Error('Choose a crew to assign the report to');
+    }
+    if (status === 'Resolved' && !details.after_photo_base64) {
+      throw new Error('An after photo is required to resolve a report');
+    }
+
+    const change: ReportStatusChange = {
+      status,
+      changed_by: user.id,
+      changed_at: new Date().toISOString(),
+      ...(details.reason ? { reason: details.reason } : {}),
+      ...(details.crew ? { crew: details.crew } : {})
+    };
+    const changes: Partial<IllegalDumpingReport> = {
+      status,
+      status_history: [...(report.status_history || []), change],
+      ...(details.crew ? { assigned_crew: details.crew } : {}),
+      ...(details.after_photo_base64 ? { after_photo_base64: details.after_photo_base64 } : {})
+    };
+
+    return this.applyReportChanges(report, changes, 'report_status');
+  }
+
+  // Add photos and a +1 to an open report instead of filing a duplicate
+  static async confirmReport(
+    report: IllegalDumpingReport,
+    collectorId: string,
+    addition: { photos_base64?: string[]; photo_metadata?: PhotoMetadata[]; note?: string } = {}
+  ): Promise<IllegalDumpingReport> {
+    const alreadyCounted = report.collector_id === collectorId ||
+      (report.confirmations || []).some(confirmation => confirmation.collector_id === collectorId);
+    const newPhotos = addition.photos_base64 || [];
+    // Every photo already on the report, in getReportPhotos order, including the single cover
+    // photo that reports from before multi-photo support carry
+    const photoCount = [report.photo_base64, report.photo_id].filter(Boolean).length +
+      (report.photo_ids?.length || 0) + (report.photos_base64?.length || 0);
+
+    const confirmation: ReportConfirmation = {
+      collector_id: collectorId,
+      confirmed_at: new Date().toISOString(),
+      photo_count: newPhotos.length,
+      ...(addition.note ? { note: addition.note } : {})
+    };
+    const changes: Partial<IllegalDumpingReport> = {
+      // The reporter or a repeat visitor adds photos without counting again
+      ...(alreadyCounted ? {} : { confirmations: [...(report.confirmations || []), confirmation] }),
+      ...(newPhotos.length > 0 ? {
+        photos_base64: [...(report.photos_base64 || []), ...newPhotos],
+        // Kept index-aligned with the photos even when the report had no metadata
+        photo_metadata: [
+          ...Array.from({ length: photoCount }, (_, index) => report.photo_metadata?.[index] || {}),
+          ...newPhotos.map((_, index) => addition.photo_metadata?.[index] || {})
+        ]
+      } : {})
+    };
+
+    return this.applyReportChanges(report, changes, 'report_confirmation');
+  }
+
+  // Write to the report on this device and queue the change, or straight to the server
+  // when it is another collector's report that only exists there
+  private static async applyReportChanges(
+    report: IllegalDumpingReport,
+    changes: Partial<IllegalDumpingReport>,
+    kind: OutboxKind
+  ): Promise<IllegalDumpingReport> {
+    const store = this.getDataStore();
+    if (await store.getDumpingReport(report.id)) {
+      const updated = await store.updateDumpingReport(report.id, changes);
+      await this.getSyncEngine()?.enqueue(kind, report.id);
+      return updated;
+    }
+
+    const server = getSyncServer();
+    if (!server) {
+      throw new Error(`Report ${report.id} not found`);
+    }
+    return server.updateDumpingReport(report.id, changes);
+  }
+
+  // Shift tracks; the route is queued for the sync engine once, when the shift ends
+  static async startShiftTrack(collectorId: string): Promise<ShiftTrack> {
+    const sync = this.getSyncEngine();
+    return this.getDataStore().addShiftTrack({
+      id: generateUuidV7(),
+      collector_id: collectorId,
+      started_at: new Date().toISOString(),
+      polyline: '',
+      offsets_s: [],
+      distance_km: 0,
+      ...(sync ? { synced: false } : {})
+    });
+  }
+
+  static async updateShiftTrack(id: string, changes: Partial<ShiftTrack>): Promise<ShiftTrack> {
+    return this.getDataStore().updateShiftTrack(id, changes);
+  }
+
+  static async endShiftTrack(id: string): Promise<ShiftTrack> {
+    const track = await this.getDataStore().updateShiftTrack(id, { ended_at: new Date().toISOString() });
+    await this.getSyncEngine()?.enqueue('shift_track', id);
+    return track;
+  }
+
+  // The shift still running on this device, e.g. after the app was reloaded
+  static async getActiveShiftTrack(collectorId: string): Promise<ShiftTrack | null> {
+    const tracks = await this.getDataStore().getShiftTracks(collectorId);
+    return tracks.find(track => !track.ended_at) || null;
+  }
+
+  // Shifts from every collector on the sync server when one is reachable, plus any on
+  // this device not pushed yet, newest first
+  static async getAllShiftTracks(): Promise<ShiftTrack[]> {
+    let tracks = await this.getDataStore().getShiftTracks();
+    const server = getSyncServer();
+    if (server) {
+      try {
+        const remote = await server.getShiftTracks();
+        const remoteIds = new Set(remote.map(track => track.id));
+        tracks = [...remote, ...tracks.filter(track => !remoteIds.has(track.id))];
+      } catch (error) {
+        console.warn('Sync server unreachable, showing shifts on this device only:', error);
+      }
+    }
+
+    return tracks.sort((a, b) => new Date(b.started_at).getTime() - new Date(a.started_at).getTime());
+  }
+
+  // The copy on this device when there is one, otherwise the sync server's
+  static async getShiftTrack(id: string): Promise<ShiftTrack | null> {
+    const local = await this.getDataStore().getShiftTrack(id);
+    if (local) return local;
+
+    const server = getSyncServer();
+    return server ? server.getShiftTrack(id) : null;
+  }
+
+  // Photo of a report or collection as a data URL, whether stored inline or as a Blob
+  static async getRecordPhoto(record: { photo_base64?: string; photo_id?: string }): Promise<string | null> {
+    return this.resolvePhoto(record.photo_base64, record.photo_id);
+  }
+
+  // Every evidence photo on a report, in display order
+  static async getReportPhotos(report: IllegalDumpingReport): Promise<string[]> {
+    const stored = await Promise.all(
+      [report.photo_id, ...(report.photo_ids || [])]
+        .filter(Boolean)
+        .map(photoId => this.resolvePhoto(undefined, photoId))
+    );
+    return [report.photo_base64, ...stored, ...(report.photos_base64 || [])].filter(Boolean);
+  }
+
+  static async getAfterPhoto(report: IllegalDumpingReport): Promise<string | null> {
+    return this.resolvePhoto(report.after_photo_base64, report.after_photo_id);
+  }
+
+  private static async resolvePhoto(inline?: string, photoId?: string): Promise<string | null> {
+    if (inline) return inline;
+    if (!photoId) return null;
+
+    const blob = await this.getDataStore().getPhoto(photoId);
+    return blob ? convertFileToBase64(blob) : null;
   }
 }
 
 // Utility functions
-export const convertFileToBase64 = (file: File): Promise<string> => {
+export const convertFileToBase64 = (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => {
@@ -170,6 +539,27 @@ export const getWasteTypeColor = (type: WasteType): string => {
   return colors[type];
 };
 
+// Older logs carry a single waste_type and no items
+export const getCollectionItems = (log: CollectionLog): CollectionItem[] => {
+  return log.items?.length ? log.items : [{ waste_type: log.waste_type }];
+};
+
+export const getCollectionWeight = (logs: CollectionLog[]): number => {
+  const total = logs.reduce((sum, log) => (
+    sum + getCollectionItems(log).reduce((itemSum, item) => itemSum + (item.weight_kg || 0), 0)
+  ), 0);
+  return Math.round(total * 100) / 100;
+};
+
+export const getLatestStatusChange = (report: IllegalDumpingReport): ReportStatusChange | null => {
+  return report.status_history?.length ? report.status_history[report.status_history.length - 1] : null;
+};
+
+export const formatStatusChange = (change: ReportStatusChange): string => {
+  const summary = `${change.status} by ${change.changed_by} · ${formatTimestamp(change.changed_at)}`;
+  return change.reason ? `${summary} — ${change.reason}` : summary;
+};
+
 export const formatTimestamp = (timestamp: string): string => {
   return new Date(timestamp).toLocaleString('en-IN', {
     day: '2-digit',
@@ -0,0 +1,123 @@
+// Collection rules for SwachhSathi Collector App
+// Checked before a collection is logged so the same household isn't logged repeatedly;
+// a collector can still log again by giving a reason code.
+
+import { getCollectionItems, type CollectionLog, type WasteType } from './api';
+
+export type RuleWindow = 'shift' | 'day';
+
+export interface CollectionRule {
+  id: string;
+  description: string;
+  window: RuleWindow;
+  perWasteType: boolean; // Count each waste type separately
+  maxCollections: number;
+}
+
+export interface ShiftWindow {
+  name: string;
+  startHour: number; // Local time, inclusive
+  endHour: number; // Local time, exclusive
+}
+
+export interface RuleViolation {
+  rule: CollectionRule;
+  existing: CollectionLog[];
+  message: string;
+}
+
+export type OverrideReasonCode = 'SEPARATE_BAG' | 'MISSED_EARLIER' | 'CORRECTION' | 'EXTRA_PICKUP' | 'OTHER';
+
+export const OVERRIDE_REASONS: { code: OverrideReasonCode; label: string }[] = [
+  { code: 'SEPARATE_BAG', label: 'Household handed over another bag' },
+  { code: 'MISSED_EARLIER', label: 'Earlier log was for a missed pickup' },
+  { code: 'CORRECTION', label: 'Correcting a wrong earlier entry' },
+  { code: 'EXTRA_PICKUP', label: 'Extra pickup requested by household' },
+  { code: 'OTHER', label: 'Other' }
+];
+
+export const DEFAULT_COLLECTION_RULES: CollectionRule[] = [
+  {
+    id: 'one-per-shift',
+    description: 'One collection per household per shift',
+    window: 'shift',
+    perWasteType: false,
+    maxCollections: 1
+  }
+];
+
+export const DEFAULT_SHIFTS: ShiftWindow[] = [
+  { name: 'Morning', startHour: 6, endHour: 14 },
+  { name: 'Evening', startHour: 14, endHour: 22 }
+];
+
+// Rules can be overridden per deployment with VITE_COLLECTION_RULES (JSON array)
+export const getCollectionRules = (): CollectionRule[] => {
+  const configured = import.meta.env.VITE_COLLECTION_RULES;
+  if (!configured) return DEFAULT_COLLECTION_RULES;
+
+  try {
+    const rules = JSON.parse(configured);
+    if (Array.isArray(rules)) return rules;
+  } catch {
+    // Fall through to defaults
+  }
+  console.warn('Invalid VITE_COLLECTION_RULES, using default collection rules');
+  return DEFAULT_COLLECTION_RULES;
+};
+
+// Start and end of the rule window containing the given time; outside any shift, the window is the day
+export const getRuleWindowBounds = (
+  time: Date,
+  window: RuleWindow,
+  shifts: ShiftWindow[] = DEFAULT_SHIFTS
+): { start: Date; end: Date; label: string } => {
+  const dayStart = new Date(time);
+  dayStart.setHours(0, 0, 0, 0);
+
+  if (window === 'shift') {
+    const hour = time.getHours();
+    const shift = shifts.find(s => hour >= s.startHour && hour < s.endHour);
+    if (shift) {
+      const start = new Date(dayStart);
+      start.setHours(shift.startHour);
+      const end = new Date(dayStart);
+      end.setHours(shift.endHour);
+      return { start, end, label: `this ${shift.name.toLowerCase()} shift` };
+    }
+  }
+
+  const end = new Date(dayStart);
+  end.setDate(end.getDate() + 1);
+  return { start: dayStart, end, label: 'today' };
+};
+
+export const checkCollectionRules = (
+  candidate: { user_id: string; waste_types: WasteType[]; timestamp: string },
+  logs: CollectionLog[],
+  rules: CollectionRule[] = getCollectionRules()
+): RuleViolation[] => {
+  const time = new Date(candidate.timestamp);
+  const householdLogs = logs.filter(log => log.user_id === candidate.user_id);
+
+  return rules.flatMap(rule => {
+    const { start, end, label } = getRuleWindowBounds(time, rule.window);
+    const inWindow = householdLogs.filter(log => {
+      const logTime = new Date(log.timestamp);
+      return logTime >= start && logTime < end;
+    });
+
+    if (!rule.perWasteType) {
+      return inWindow.length >= rule.maxCollections
+        ? [{ rule, existing: inWindow, message: `Already collected ${label}` }]
+        : [];
+    }
+
+    return candidate.waste_types.flatMap(type => {
+      const sameType = inWindow.filter(log => getCollectionItems(log).some(item => item.waste_type === type));
+      return sameType.length >= rule.maxCollections
+        ? [{ rule, existing: sameType, message: `${type} waste already collected ${label}` }]
+        : [];
+    });
+  });
+};
@@ -0,0 +1,131 @@
+// Household segregation compliance for SwachhSathi Collector App
+// Scores are derived from the graded CollectionLogs on the device, so a collector can
+// see a household's record at the door without a server round trip.
+
+import type { CollectionLog, SegregationGrade } from './api';
+
+export type ComplianceTrend = 'improving' | 'declining' | 'steady' | 'insufficient';
+
+export interface ComplianceOptions {
+  windowDays: number; // Rolling window the score and days without a collection cover
+  trendDays: number; // Recent slice compared against the rest of the window
+  trendThreshold: number; // Score change (points) that counts as a trend
+}
+
+export interface HouseholdCompliance {
+  householdId: string;
+  score: number | null; // 0–100 over the window, null when nothing was graded
+  recentScore: number | null;
+  previousScore: number | null;
+  trend: ComplianceTrend;
+  collections: number; // Collections inside the window
+  gradeCounts: Record<SegregationGrade, number>;
+  daysWithoutCollection: string[]; // YYYY-MM-DD calendar days with no collection, oldest first
+  lastCollectedAt: string | null;
+}
+
+export const DEFAULT_COMPLIANCE_OPTIONS: ComplianceOptions = {
+  windowDays: 30,
+  trendDays: 7,
+  trendThreshold: 10
+};
+
+export const GRADE_SCORES: Record<SegregationGrade, number> = {
+  'Segregated': 100,
+  'Partially Mixed': 50,
+  'Fully Mixed': 0,
+  'Refused': 0
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar day, so a collection at 23:30 counts for that evening
+export const toDayKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const startOfDay = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+const averageScore = (logs: CollectionLog[]): number | null => {
+  const graded = logs.filter(log => log.segregation_grade);
+  if (graded.length === 0) return null;
+  const total = graded.reduce((sum, log) => sum + GRADE_SCORES[log.segregation_grade], 0);
+  return Math.round(total / graded.length);
+};
+
+export const computeHouseholdCompliance = (
+  householdId: string,
+  logs: CollectionLog[],
+  now: Date = new Date(),
+  options: ComplianceOptions = DEFAULT_COMPLIANCE_OPTIONS
+): HouseholdCompliance => {
+  const householdLogs = logs
+    .filter(log => log.user_id === householdId)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const today = startOfDay(now);
+  const windowStart = new Date(today.getTime() - (options.windowDays - 1) * DAY_MS);
+  const trendStart = new Date(today.getTime() - (options.trendDays - 1) * DAY_MS);
+
+  const inWindow = householdLogs.filter(log => {
+    const time = new Date(log.timestamp);
+    return time >= windowStart && time <= now;
+  });
+  const recent = inWindow.filter(log => new Date(log.timestamp) >= trendStart);
+  const previous = inWindow.filter(log => new Date(log.timestamp) < trendStart);
+
+  const gradeCounts = Object.fromEntries(
+    Object.keys(GRADE_SCORES).map(grade => [grade, 0])
+  ) as Record<SegregationGrade, number>;
+  inWindow.forEach(log => {
+    if (log.segregation_grade) gradeCounts[log.segregation_grade]++;
+  });
+
+  // Every calendar day from the first collection we know of (or the window start) to yesterday;
+  // there is no pickup schedule, so a day off still counts. Today isn't counted until it is over
+  const daysWithoutCollection: string[] = [];
+  if (householdLogs.length > 0) {
+    const collectedDays = new Set(householdLogs.map(log => toDayKey(new Date(log.timestamp))));
+    const firstDay = startOfDay(new Date(householdLogs[0].timestamp));
+    const day = firstDay > windowStart ? firstDay : new Date(windowStart);
+    for (; day < today; day.setDate(day.getDate() + 1)) {
+      const key = toDayKey(day);
+      if (!collectedDays.has(key)) daysWithoutCollection.push(key);
+    }
+  }
+
+  const recentScore = averageScore(recent);
+  const previousScore = averageScore(previous);
+  let trend: ComplianceTrend = 'insufficient';
+  if (recentScore !== null && previousScore !== null) {
+    const change = recentScore - previousScore;
+    trend = change >= options.trendThreshold ? 'improving'
+      : change <= -options.trendThreshold ? 'declining'
+      : 'steady';
+  }
+
+  return {
+    householdId,
+    score: averageScore(inWindow),
+    recentScore,
+    previousScore,
+    trend,
+    collections: inWindow.length,
+    gradeCounts,
+    daysWithoutCollection,
+    lastCollectedAt: householdLogs.length > 0 ? householdLogs[householdLogs.length - 1].timestamp : null
+  };
+};
+
+export const getComplianceColor = (score: number | null): string => {
+  if (score === null) return 'text-muted-foreground';
+  if (score >= 80) return 'text-success';
+  if (score >= 50) return 'text-warning';
+  return 'text-destructive';
+};
@@ -0,0 +1,131 @@
+// Data store abstraction for SwachhSathi Collector App
+// CollectorAPI talks to one of these; the backend is picked from configuration at startup.
+
+import type { CollectionLog, Household, IllegalDumpingReport, ShiftTrack } from './api';
+import type { ScanHistory } from './scanner';
+import { IndexedDbDataStore } from './stores/indexedDbStore';
+import { LocalStorageDataStore } from './stores/localStorageStore';
+import { RestDataStore } from './stores/restStore';
+
+// Inserts are idempotent: records arrive with a client-generated id (see ids.ts) and
+// adding an id that already exists returns the stored record instead of a duplicate.
+export interface CollectorDataStore {
+  getCollectionLogs(collectorId?: string): Promise<CollectionLog[]>;
+  getCollectionLog(id: string): Promise<CollectionLog | null>;
+  addCollectionLog(log: CollectionLog): Promise<CollectionLog>;
+  updateCollectionLog(id: string, changes: Partial<CollectionLog>): Promise<CollectionLog>;
+  getDumpingReports(collectorId?: string): Promise<IllegalDumpingReport[]>;
+  getDumpingReport(id: string): Promise<IllegalDumpingReport | null>;
+  addDumpingReport(report: IllegalDumpingReport): Promise<IllegalDumpingReport>;
+  updateDumpingReport(id: string, changes: Partial<IllegalDumpingReport>): Promise<IllegalDumpingReport>;
+  // Resolves a report's photo_id; stores that keep photos inline return null
+  getPhoto(photoId: string): Promise<Blob | null>;
+
+  // Offline scan history
+  getScanHistory(): Promise<ScanHistory[]>;
+  saveScan(scan: ScanHistory): Promise<void>;
+  deleteScans(scanIds: string[]): Promise<void>;
+
+  // Household directory, cached per ward on device stores
+  getHousehold(id: string): Promise<Household | null>;
+  getHouseholds(ward?: string): Promise<Household[]>;
+  replaceWardHouseholds(ward: string, households: Household[]): Promise<void>;
+
+  // GPS breadcrumb trails, one per shift
+  getShiftTracks(collectorId?: string): Promise<ShiftTrack[]>;
+  getShiftTrack(id: string): Promise<ShiftTrack | null>;
+  addShiftTrack(track: ShiftTrack): Promise<ShiftTrack>;
+  updateShiftTrack(id: string, changes: Partial<ShiftTrack>): Promise<ShiftTrack>;
+}
+
+// Writes waiting to be pushed to the server by the sync engine
+// 'report_status' pushes a lifecycle step (review, assignment, cleanup) of a report already on the server;
+// 'report_confirmation' pushes photos and +1s added to it by other collectors;
+// 'shift_track' pushes a finished shift's route
+export type OutboxKind = 'collection_log' | 'dumping_report' | 'report_status' | 'report_confirmation' | 'shift_track';
+
+export interface OutboxEntry {
+  id: string;
+  kind: OutboxKind;
+  record_id: string;
+  created_at: string;
+  attempts: number;
+  next_attempt_at: string;
+  last_error?: string;
+}
+
+// Implemented by the on-device stores; a REST store has nothing to queue
+export interface OutboxStore {
+  getOutbox(): Promise<OutboxEntry[]>;
+  saveOutboxEntry(entry: OutboxEntry): Promise<void>;
+  deleteOutboxEntry(entryId: string): Promise<void>;
+}
+
+// Implemented by stores that keep photos as Blobs; report drafts park their photos here
+export interface PhotoStore {
+  savePhoto(photoId: string, dataUrl: string): Promise<void>;
+  deletePhotos(photoIds: string[]): Promise<void>;
+}
+
+export const supportsPhotoStore = (store: CollectorDataStore): store is CollectorDataStore & PhotoStore => {
+  return typeof (store as Partial<PhotoStore>).savePhoto === 'function';
+};
+
+export const supportsOutbox = (store: CollectorDataStore): store is CollectorDataStore & OutboxStore => {
+  return typeof (store as Partial<OutboxStore>).getOutbox === 'function';
+};
+
+export type DataStoreKind = 'local' | 'indexeddb' | 'rest' | 'supabase';
+
+export interface DataStoreConfig {
+  kind: DataStoreKind;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+const DATA_STORE_KINDS: DataStoreKind[] = ['local', 'indexeddb', 'rest', 'supabase'];
+
+// Read the store selection from Vite env (see .env.example)
+export const getDataStoreConfig = (): DataStoreConfig => {
+  const env = import.meta.env;
+  const kind = (env.VITE_DATA_STORE || 'indexeddb') as DataStoreKind;
+
+  if (!DATA_STORE_KINDS.includes(kind)) {
+    console.warn(`Unknown VITE_DATA_STORE "${kind}", falling back to local storage`);
+    return { kind: 'local' };
+  }
+
+  if (kind === 'supabase') {
+    return {
+      kind,
+      baseUrl: env.VITE_SUPABASE_URL ? `${env.VITE_SUPABASE_URL.replace(/\/$/, '')}/rest/v1` : undefined,
+      apiKey: env.VITE_SUPABASE_ANON_KEY
+    };
+  }
+
+  return { kind, baseUrl: env.VITE_API_BASE_URL, apiKey: env.VITE_API_KEY };
+};
+
+export const createDataStore = (config: DataStoreConfig): CollectorDataStore => {
+  switch (config.kind) {
+    case 'indexeddb':
+      if (typeof indexedDB === 'undefined') {
+        console.warn('IndexedDB is not available, falling back to local storage');
+        return new LocalStorageDataStore();
+      }
+      return new IndexedDbDataStore();
+    case 'rest':
+    case 'supabase':
+      if (!config.baseUrl) {
+        console.warn(`No base URL configured for the ${config.kind} data store, falling back to local storage`);
+        return new LocalStorageDataStore();
+      }
+      return new RestDataStore({
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        dialect: config.kind === 'supabase' ? 'postgrest' : 'rest'
+      });
+    default:
+      return new LocalStorageDataStore();
+  }
+};
@@ -0,0 +1,88 @@
+// Household directory for SwachhSathi Collector App
+// The directory is downloaded per ward and cached in the data store, so scans are
+// checked against known households even without signal.
+
+import { CollectorAPI, type CollectionLog, type Household } from './api';
+import { supportsOutbox } from './dataStore';
+import { getSyncServer } from './sync';
+
+export type HouseholdStatus = 'known' | 'inactive' | 'unknown' | 'unverified';
+
+export interface HouseholdLookup {
+  householdId: string;
+  status: HouseholdStatus;
+  household?: Household;
+  recentCollections: CollectionLog[]; // Most recent first
+}
+
+const SYNC_TIMES_KEY = 'household_sync_times';
+const RECENT_COLLECTION_LIMIT = 5;
+
+export class HouseholdRegistry {
+  private static getSyncTimes(): Record<string, string> {
+    const stored = localStorage.getItem(SYNC_TIMES_KEY);
+    return stored ? JSON.parse(stored) : {};
+  }
+
+  static getLastSyncedAt(ward: string): string | null {
+    return this.getSyncTimes()[ward] || null;
+  }
+
+  // Download the ward's directory into the local cache (a REST store is its own source)
+  static async syncWard(ward: string): Promise<number> {
+    const store = CollectorAPI.getDataStore();
+    const source = getSyncServer() || (supportsOutbox(store) ? null : store);
+    if (!source) {
+      throw new Error('No server configured to download the household directory from');
+    }
+
+    const households = await source.getHouseholds(ward);
+    await store.replaceWardHouseholds(ward, households);
+    localStorage.setItem(SYNC_TIMES_KEY, JSON.stringify({
+      ...this.getSyncTimes(),
+      [ward]: new Date().toISOString()
+    }));
+    return households.length;
+  }
+
+  static getHouseholds(ward?: string): Promise<Household[]> {
+    return CollectorAPI.getDataStore().getHouseholds(ward);
+  }
+
+  static async search(query: string, ward?: string): Promise<Household[]> {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+
+    const households = await this.getHouseholds(ward);
+    return households.filter(household =>
+      [household.id, household.name, household.house_number, household.address]
+        .some(field => field?.toLowerCase().includes(needle))
+    );
+  }
+
+  // Resolve a scanned household id; 'unverified' means no directory has been downloaded yet
+  static async lookup(householdId: string, ward?: string): Promise<HouseholdLookup> {
+    const store = CollectorAPI.getDataStore();
+    const [household, logs] = await Promise.all([
+      store.getHousehold(householdId),
+      store.getCollectionLogs()
+    ]);
+
+    const recentCollections = logs
+      .filter(log => log.user_id === householdId)
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .slice(0, RECENT_COLLECTION_LIMIT);
+
+    let status: HouseholdStatus;
+    if (household) {
+      status = household.is_active ? 'known' : 'inactive';
+    } else {
+      const hasDirectory = ward
+        ? Boolean(this.getLastSyncedAt(ward))
+        : Object.keys(this.getSyncTimes()).length > 0;
+      status = hasDirectory ? 'unknown' : 'unverified';
+    }
+
+    return { householdId, status, household: household || undefined, recentCollections };
+  }
+}
@@ -0,0 +1,30 @@
+// Record ID utilities for SwachhSathi Collector App
+
+// UUIDv7 (RFC 9562): 48-bit Unix ms timestamp followed by random bits.
+// Generated on the device so a record keeps the same ID however many times it is replayed,
+// and IDs still sort by creation time.
+export const generateUuidV7 = (timestamp: number = Date.now()): string => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+
+  // Timestamp, big-endian (split so it stays within safe integer math)
+  const high = Math.floor(timestamp / 0x10000);
+  const low = timestamp % 0x10000;
+  bytes[0] = (high >>> 24) & 0xff;
+  bytes[1] = (high >>> 16) & 0xff;
+  bytes[2] = (high >>> 8) & 0xff;
+  bytes[3] = high & 0xff;
+  bytes[4] = (low >>> 8) & 0xff;
+  bytes[5] = low & 0xff;
+
+  bytes[6] = (bytes[6] & 0x0f) | 0x70; // Version 7
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+// Key sent with every write; replaying a record always produces the same key
+export const getIdempotencyKey = (kind: string, id: string): string => {
+  return `${kind}:${id}`;
+};
@@ -0,0 +1,95 @@
+// Photo handling for SwachhSathi Collector App
+// Camera images are resized and re-encoded in the browser before they are stored or synced,
+// so a report carries a few hundred KB per photo instead of the camera's full-resolution file.
+
+import type { ImageRotation } from './photoMetadata';
+
+export interface PhotoOptions {
+  maxDimension: number; // Longest edge in pixels
+  quality: number; // JPEG quality, 0–1
+  maxPhotos: number; // Per dumping report
+}
+
+export const DEFAULT_PHOTO_OPTIONS: PhotoOptions = {
+  maxDimension: 1600,
+  quality: 0.8,
+  maxPhotos: 5
+};
+
+// Read overrides from Vite env (see .env.example)
+export const getPhotoOptions = (): PhotoOptions => {
+  const env = import.meta.env;
+  const read = (value: string | undefined, fallback: number, min: number, max: number) => {
+    const parsed = Number(value);
+    return value && Number.isFinite(parsed) ? Math.min(max, Math.max(min, parsed)) : fallback;
+  };
+
+  return {
+    maxDimension: read(env.VITE_PHOTO_MAX_DIMENSION, DEFAULT_PHOTO_OPTIONS.maxDimension, 320, 8000),
+    quality: read(env.VITE_PHOTO_QUALITY, DEFAULT_PHOTO_OPTIONS.quality, 0.1, 1),
+    maxPhotos: Math.round(read(env.VITE_MAX_REPORT_PHOTOS, DEFAULT_PHOTO_OPTIONS.maxPhotos, 1, 20))
+  };
+};
+
+// Fit within maxDimension, never upscaling
+export const getScaledSize = (width: number, height: number, maxDimension: number): { width: number; height: number } => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const loadImage = (file: Blob): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Unable to read the photo'));
+    };
+    image.src = url;
+  });
+};
+
+// Resize and re-encode as a JPEG data URL, turning the image upright when the browser
+// doesn't apply EXIF orientation itself (see getCanvasRotation)
+export const compressImage = async (
+  file: Blob,
+  options: PhotoOptions = getPhotoOptions(),
+  rotation: ImageRotation | null = null
+): Promise<string> => {
+  const image = await loadImage(file);
+  const { width, height } = getScaledSize(image.naturalWidth, image.naturalHeight, options.maxDimension);
+  const swapped = rotation?.dimensionSwapped || false;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = swapped ? height : width;
+  canvas.height = swapped ? width : height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported by this browser');
+  }
+  if (rotation) {
+    context.translate(canvas.width / 2, canvas.height / 2);
+    context.rotate(rotation.deg * Math.PI / 180);
+    context.scale(rotation.scaleX, rotation.scaleY);
+    context.drawImage(image, -width / 2, -height / 2, width, height);
+  } else {
+    context.drawImage(image, 0, 0, width, height);
+  }
+  return canvas.toDataURL('image/jpeg', options.quality);
+};
+
+// Approximate decoded size of a base64 data URL, for showing the saving
+export const getDataUrlSize = (dataUrl: string): number => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  return Math.floor(base64.length * 3 / 4);
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
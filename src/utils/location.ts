@@ -4,7 +4,29 @@ export interface LocationData {
   latitude: number;
   longitude: number;
   accuracy?: number;
-  timestamp: number;
+  timestamp: number; // When the device took the fix, which can be earlier than the request
+}
+
+// Browsers don't say which provider produced a fix, so this is inferred from its accuracy and age
+export type LocationSource = 'gps' | 'network' | 'cached';
+
+// A fix as held by a screen until it is written to a record; drafts saved before quality
+// metadata only have lat and lng
+export interface LocationFix {
+  lat: number;
+  lng: number;
+  accuracy?: number; // Metres
+  fixedAt?: number; // Epoch ms
+  source?: LocationSource;
+}
+
+// Location as stored on a CollectionLog or IllegalDumpingReport; null coordinates mean no fix
+export interface RecordLocation {
+  latitude: number | null;
+  longitude: number | null;
+  location_accuracy_m?: number;
+  location_age_s?: number; // Age of the fix when the record was made
+  location_source?: LocationSource;
 }
 
 export interface LocationError {
@@ -34,7 +56,7 @@ export const getCurrentLocation = (): Promise<LocationData> => {
           latitude: position.coords.latitude,
           longitude: position.coords.longitude,
           accuracy: position.coords.accuracy,
-          timestamp: Date.now()
+          timestamp: position.timestamp
         });
       },
       (error) => {
@@ -72,7 +94,7 @@ export const watchLocation = (
         latitude: position.coords.latitude,
         longitude: position.coords.longitude,
         accuracy: position.coords.accuracy,
-        timestamp: Date.now()
+        timestamp: position.timestamp
       });
     },
     (error) => {
@@ -102,6 +124,58 @@ const getLocationErrorMessage = (code: number): string => {
   }
 };
 
+const DEFAULT_MAX_ACCURACY_METERS = 50;
+
+// Wi-Fi and cell-tower fixes are rarely better than this
+const GPS_ACCURACY_LIMIT_METERS = 100;
+
+// Fixes less accurate than this keep the app waiting for a better one (VITE_LOCATION_MAX_ACCURACY_M)
+export const getLocationAccuracyThreshold = (): number => {
+  const threshold = Number(import.meta.env.VITE_LOCATION_MAX_ACCURACY_M);
+  return Number.isFinite(threshold) && threshold > 0 ? threshold : DEFAULT_MAX_ACCURACY_METERS;
+};
+
+// requestedAt is when the app asked for a location; a fix from before then came from the browser's cache
+export const toLocationFix = (location: LocationData, requestedAt: number): LocationFix => {
+  let source: LocationSource = 'network';
+  if (location.timestamp < requestedAt) {
+    source = 'cached';
+  } else if (location.accuracy !== undefined && location.accuracy <= GPS_ACCURACY_LIMIT_METERS) {
+    source = 'gps';
+  }
+  return {
+    lat: location.latitude,
+    lng: location.longitude,
+    accuracy: location.accuracy,
+    fixedAt: location.timestamp,
+    source
+  };
+};
+
+export const meetsAccuracy = (fix: LocationFix, threshold: number = getLocationAccuracyThreshold()): boolean =>
+  fix.accuracy !== undefined && fix.accuracy <= threshold;
+
+export const toRecordLocation = (fix: LocationFix | null, recordedAt: string): RecordLocation => {
+  if (!fix) return { latitude: null, longitude: null };
+  return {
+    latitude: fix.lat,
+    longitude: fix.lng,
+    ...(fix.accuracy !== undefined ? { location_accuracy_m: Math.round(fix.accuracy) } : {}),
+    ...(fix.fixedAt !== undefined
+      ? { location_age_s: Math.max(0, Math.round((new Date(recordedAt).getTime() - fix.fixedAt) / 1000)) }
+      : {}),
+    ...(fix.source ? { location_source: fix.source } : {})
+  };
+};
+
+// Records from before nullable coordinates stored a missing fix as 0,0
+export const hasLocation = (latitude: number | null | undefined, longitude: number | null | undefined): boolean =>
+  typeof latitude === 'number' && typeof longitude === 'number' &&
+  Number.isFinite(latitude) && Number.isFinite(longitude) &&
+  !(latitude === 0 && longitude === 0);
+
+export const formatAccuracy = (accuracy: number): string => `±${Math.round(accuracy)} m`;
+
 export const formatCoordinates = (lat: number, lng: number): string => {
   return `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
 };
@@ -0,0 +1,113 @@
+// Map data for SwachhSathi Collector App
+// Collections and dumping reports become colour-coded points on the map screen. Tiles come from
+// VITE_MAP_TILE_URL, which can point at the local tile server (npm run tile-server) offline.
+
+import type { CollectionLog, IllegalDumpingReport, ReportStatus, WasteType } from './api';
+import { toDayKey } from './compliance';
+import { hasLocation } from './location';
+
+export interface MapTileConfig {
+  url: string; // Leaflet URL template with {z}/{x}/{y}
+  attribution: string;
+  maxZoom: number;
+}
+
+export const DEFAULT_TILE_CONFIG: MapTileConfig = {
+  url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  maxZoom: 19
+};
+
+// Read overrides from Vite env (see .env.example)
+export const getMapTileConfig = (): MapTileConfig => {
+  const env = import.meta.env;
+  const maxZoom = Number(env.VITE_MAP_MAX_ZOOM);
+  return {
+    url: env.VITE_MAP_TILE_URL || DEFAULT_TILE_CONFIG.url,
+    attribution: env.VITE_MAP_ATTRIBUTION ?? DEFAULT_TILE_CONFIG.attribution,
+    maxZoom: Number.isInteger(maxZoom) && maxZoom > 0 ? maxZoom : DEFAULT_TILE_CONFIG.maxZoom
+  };
+};
+
+// CSS colours, matching the waste-type classes used on the Dashboard
+export const WASTE_TYPE_MAP_COLORS: Record<WasteType, string> = {
+  Dry: 'hsl(var(--waste-dry))',
+  Wet: 'hsl(var(--waste-wet))',
+  Recyclable: 'hsl(var(--waste-recyclable))',
+  Other: 'hsl(var(--waste-other))'
+};
+
+export const REPORT_STATUS_MAP_COLORS: Record<ReportStatus, string> = {
+  Pending: 'hsl(var(--warning))',
+  Verified: 'hsl(var(--destructive))',
+  Rejected: 'hsl(var(--muted-foreground))',
+  Assigned: 'hsl(var(--destructive))',
+  'Cleanup In Progress': 'hsl(var(--primary))',
+  Resolved: 'hsl(var(--success))',
+  Reopened: 'hsl(var(--destructive))'
+};
+
+export type MapPointKind = 'collection' | 'report';
+
+export interface MapPoint {
+  id: string;
+  kind: MapPointKind;
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  color: string;
+  label: string; // Waste type or report status, for the legend and popup
+  log?: CollectionLog;
+  report?: IllegalDumpingReport;
+}
+
+// Inclusive local calendar days as YYYY-MM-DD (the format of <input type="date">); empty means open-ended
+export interface MapDateRange {
+  from: string;
+  to: string;
+}
+
+export const getRecentDateRange = (days: number, now: Date = new Date()): MapDateRange => {
+  const from = new Date(now);
+  from.setDate(from.getDate() - (days - 1));
+  return { from: toDayKey(from), to: toDayKey(now) };
+};
+
+const inRange = (timestamp: string, range: MapDateRange): boolean => {
+  const day = toDayKey(new Date(timestamp));
+  return (!range.from || day >= range.from) && (!range.to || day <= range.to);
+};
+
+export const buildMapPoints = (
+  logs: CollectionLog[],
+  reports: IllegalDumpingReport[],
+  range: MapDateRange
+): MapPoint[] => {
+  const collectionPoints = logs
+    .filter(log => hasLocation(log.latitude, log.longitude) && inRange(log.timestamp, range))
+    .map((log): MapPoint => ({
+      id: log.id,
+      kind: 'collection',
+      latitude: log.latitude,
+      longitude: log.longitude,
+      timestamp: log.timestamp,
+      color: WASTE_TYPE_MAP_COLORS[log.waste_type],
+      label: log.waste_type,
+      log
+    }));
+
+  const reportPoints = reports
+    .filter(report => hasLocation(report.latitude, report.longitude) && inRange(report.timestamp, range))
+    .map((report): MapPoint => ({
+      id: report.id,
+      kind: 'report',
+      latitude: report.latitude,
+      longitude: report.longitude,
+      timestamp: report.timestamp,
+      color: REPORT_STATUS_MAP_COLORS[report.status],
+      label: report.status,
+      report
+    }));
+
+  return [...collectionPoints, ...reportPoints];
+};
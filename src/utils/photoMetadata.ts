@@ -0,0 +1,123 @@
+// Photo provenance for SwachhSathi Collector App
+// EXIF is read from the original camera file before it is compressed (which strips it),
+// so a report keeps when, where and on what device each photo was taken.
+
+import exifr from 'exifr';
+import { calculateDistance, hasLocation } from './location';
+
+export interface PhotoMetadata {
+  captured_at?: string; // ISO timestamp from DateTimeOriginal
+  latitude?: number;
+  longitude?: number;
+  orientation?: number; // EXIF orientation, 1–8
+  device?: string; // Make and model
+  software?: string;
+}
+
+// Rotation the canvas must apply because the browser does not honour EXIF orientation
+export interface ImageRotation {
+  deg: number;
+  scaleX: number;
+  scaleY: number;
+  dimensionSwapped: boolean;
+}
+
+export interface PhotoCheckOptions {
+  maxAgeMinutes: number; // Capture time older than this before the report is suspicious
+  maxDistanceMeters: number; // Photo GPS further than this from the report location
+}
+
+export const DEFAULT_PHOTO_CHECKS: PhotoCheckOptions = {
+  maxAgeMinutes: 30,
+  maxDistanceMeters: 200
+};
+
+export type PhotoWarningKind = 'no_capture_time' | 'stale' | 'future' | 'far_away';
+
+export interface PhotoWarning {
+  kind: PhotoWarningKind;
+  message: string;
+}
+
+export const readPhotoMetadata = async (file: Blob): Promise<PhotoMetadata> => {
+  try {
+    const exif = await exifr.parse(file, {
+      tiff: true,
+      exif: true,
+      gps: true,
+      translateValues: false,
+      pick: ['DateTimeOriginal', 'CreateDate', 'Make', 'Model', 'Orientation', 'Software', 'latitude', 'longitude']
+    });
+    if (!exif) return {};
+
+    const captured: Date | undefined = exif.DateTimeOriginal || exif.CreateDate;
+    const device = [exif.Make, exif.Model].filter(Boolean).join(' ').trim();
+    return {
+      ...(captured instanceof Date && !isNaN(captured.getTime()) ? { captured_at: captured.toISOString() } : {}),
+      ...(Number.isFinite(exif.latitude) && Number.isFinite(exif.longitude)
+        ? { latitude: exif.latitude, longitude: exif.longitude }
+        : {}),
+      ...(exif.Orientation ? { orientation: exif.Orientation } : {}),
+      ...(device ? { device } : {}),
+      ...(exif.Software ? { software: String(exif.Software) } : {})
+    };
+  } catch (error) {
+    // Formats without EXIF (or unreadable files) simply have no metadata
+    console.warn('Unable to read photo metadata:', error);
+    return {};
+  }
+};
+
+// Null when the browser already draws the image upright
+export const getCanvasRotation = async (file: Blob): Promise<ImageRotation | null> => {
+  try {
+    const rotation = await exifr.rotation(file);
+    if (!rotation || !rotation.canvas || (rotation.deg === 0 && rotation.scaleX === 1 && rotation.scaleY === 1)) {
+      return null;
+    }
+    return {
+      deg: rotation.deg,
+      scaleX: rotation.scaleX,
+      scaleY: rotation.scaleY,
+      dimensionSwapped: rotation.dimensionSwapped
+    };
+  } catch (error) {
+    return null;
+  }
+};
+
+const formatAge = (minutes: number): string => {
+  if (minutes >= 24 * 60) return `${Math.round(minutes / (24 * 60))} days`;
+  if (minutes >= 60) return `${Math.round(minutes / 60)} hours`;
+  return `${Math.round(minutes)} minutes`;
+};
+
+// Compare a photo's capture time and place with the report it is attached to
+export const checkPhotoMetadata = (
+  metadata: PhotoMetadata,
+  report: { timestamp: string; latitude?: number | null; longitude?: number | null },
+  options: PhotoCheckOptions = DEFAULT_PHOTO_CHECKS
+): PhotoWarning[] => {
+  const warnings: PhotoWarning[] = [];
+
+  if (!metadata.captured_at) {
+    warnings.push({ kind: 'no_capture_time', message: 'No capture time; this may be a screenshot or an edited image' });
+  } else {
+    const minutes = (new Date(report.timestamp).getTime() - new Date(metadata.captured_at).getTime()) / 60000;
+    if (minutes > options.maxAgeMinutes) {
+      warnings.push({ kind: 'stale', message: `Taken ${formatAge(minutes)} before this report` });
+    } else if (minutes < -options.maxAgeMinutes) {
+      warnings.push({ kind: 'future', message: "Capture time is later than the report; the camera's clock may be wrong" });
+    }
+  }
+
+  if (hasLocation(report.latitude, report.longitude) && metadata.latitude !== undefined && metadata.longitude !== undefined) {
+    const meters = calculateDistance(report.latitude, report.longitude, metadata.latitude, metadata.longitude) * 1000;
+    if (meters > options.maxDistanceMeters) {
+      const distance = meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+      warnings.push({ kind: 'far_away', message: `Taken ${distance} from the report location` });
+    }
+  }
+
+  return warnings;
+};
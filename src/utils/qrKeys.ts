@@ -0,0 +1,53 @@
+// ULB signing keys and revocations built into the app, so household QR codes verify offline.
+// Rotate by adding a new key with its own kid; retire one by setting validUntil or revoked.
+
+export interface ULBPublicKey {
+  kid: string;
+  ulb: string;
+  publicKey: string; // Raw 32-byte Ed25519 key, base64url
+  validFrom: string; // Codes issued before this date are rejected for this key
+  validUntil?: string; // Codes issued after this date are rejected for this key
+  revoked?: boolean;
+  devOnly?: boolean; // Accepted only in development builds
+}
+
+export interface QRRevocation {
+  hid: string;
+  issuedBefore?: string; // Only codes issued before this date; omit to revoke every code for the household
+  reason: string;
+}
+
+const isPublicKey = (value: unknown): value is ULBPublicKey => {
+  const key = value as ULBPublicKey;
+  return typeof key === 'object' && key !== null
+    && typeof key.kid === 'string'
+    && typeof key.ulb === 'string'
+    && typeof key.publicKey === 'string'
+    && typeof key.validFrom === 'string';
+};
+
+// Keys are configured per deployment with VITE_QR_PUBLIC_KEYS (JSON array of ULBPublicKey);
+// none are bundled by default, and vite.config.ts refuses a production build without them
+const parsePublicKeys = (): ULBPublicKey[] => {
+  const configured = import.meta.env.VITE_QR_PUBLIC_KEYS;
+  if (!configured) return [];
+
+  try {
+    const keys = JSON.parse(configured);
+    if (Array.isArray(keys) && keys.every(isPublicKey)) return keys;
+  } catch {
+    // Fall through to no keys
+  }
+  console.warn('Invalid VITE_QR_PUBLIC_KEYS, no household codes can be verified');
+  return [];
+};
+
+export const ULB_PUBLIC_KEYS: ULBPublicKey[] = parsePublicKeys();
+
+// Shown wherever a code is verified or signed while the app has no keys to do it with
+export const QR_KEYS_CONFIG_ERROR = 'No ULB signing keys are configured. Set VITE_QR_PUBLIC_KEYS and rebuild the app.';
+
+export const REVOKED_QR_CODES: QRRevocation[] = [];
+
+// How long a code stays valid when the payload carries no explicit expiry
+export const DEFAULT_QR_VALIDITY_DAYS = 3 * 365;
@@ -0,0 +1,175 @@
+// Signed household QR codes for SwachhSathi Collector App
+// Format: SWS1.<base64url JSON payload>.<base64url Ed25519 signature>
+// The signature covers the "SWS1.<payload>" prefix, so the version and payload can't be swapped.
+
+import { signAsync, verifyAsync } from '@noble/ed25519';
+import {
+  DEFAULT_QR_VALIDITY_DAYS,
+  QR_KEYS_CONFIG_ERROR,
+  REVOKED_QR_CODES,
+  ULB_PUBLIC_KEYS,
+  type ULBPublicKey
+} from './qrKeys';
+
+export const SIGNED_QR_PREFIX = 'SWS1';
+
+export interface HouseholdQRPayload {
+  v: 1;
+  kid: string; // Signing key id, see qrKeys.ts
+  hid: string; // Household id
+  ward: string;
+  iat: string; // Issue date, YYYY-MM-DD
+  exp?: string; // Expiry date, YYYY-MM-DD
+}
+
+export type QRRejectionReason =
+  | 'unsigned'
+  | 'malformed'
+  | 'unknown_key'
+  | 'not_configured'
+  | 'tampered'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'revoked';
+
+export interface QRVerification {
+  valid: boolean;
+  payload?: HouseholdQRPayload; // Present whenever the payload could be decoded
+  reason?: QRRejectionReason;
+  message?: string;
+}
+
+const REJECTION_MESSAGES: Record<QRRejectionReason, string> = {
+  unsigned: 'This is not a signed SwachhSathi household code.',
+  malformed: 'This household code is damaged or incomplete.',
+  unknown_key: 'This household code was signed by an unknown authority.',
+  not_configured: QR_KEYS_CONFIG_ERROR,
+  tampered: 'This household code has been altered and cannot be trusted.',
+  expired: 'This household code has expired. Please request a replacement.',
+  not_yet_valid: 'This household code is not valid yet.',
+  revoked: 'This household code has been revoked.'
+};
+
+const reject = (reason: QRRejectionReason, payload?: HouseholdQRPayload, detail?: string): QRVerification => ({
+  valid: false,
+  reason,
+  message: detail ? `${REJECTION_MESSAGES[reason]} ${detail}` : REJECTION_MESSAGES[reason],
+  payload
+});
+
+export const base64UrlEncode = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const base64UrlDecode = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(text.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const isDateString = (value: unknown): value is string => {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+};
+
+const isHouseholdPayload = (value: unknown): value is HouseholdQRPayload => {
+  const payload = value as HouseholdQRPayload;
+  return Boolean(payload)
+    && payload.v === 1
+    && typeof payload.kid === 'string'
+    && typeof payload.hid === 'string' && payload.hid.length > 0
+    && typeof payload.ward === 'string'
+    && isDateString(payload.iat)
+    && (payload.exp === undefined || isDateString(payload.exp));
+};
+
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10);
+
+const addDays = (dateString: string, days: number): string => {
+  const date = new Date(`${dateString}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateString(date);
+};
+
+export const getTrustedKey = (kid: string, keys: ULBPublicKey[] = ULB_PUBLIC_KEYS): ULBPublicKey | undefined => {
+  return keys.find(key => key.kid === kid && !key.revoked && (!key.devOnly || import.meta.env.DEV));
+};
+
+export const signHouseholdPayload = async (payload: HouseholdQRPayload, secretKey: Uint8Array): Promise<string> => {
+  const body = `${SIGNED_QR_PREFIX}.${base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)))}`;
+  const signature = await signAsync(new TextEncoder().encode(body), secretKey);
+  return `${body}.${base64UrlEncode(signature)}`;
+};
+
+export const verifySignedQR = async (qrText: string, now: Date = new Date()): Promise<QRVerification> => {
+  const parts = qrText.trim().split('.');
+  if (parts[0] !== SIGNED_QR_PREFIX) {
+    return reject('unsigned');
+  }
+  if (parts.length !== 3) {
+    return reject('malformed');
+  }
+
+  let payload: HouseholdQRPayload;
+  let signature: Uint8Array;
+  try {
+    const decoded = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[1])));
+    if (!isHouseholdPayload(decoded)) {
+      return reject('malformed');
+    }
+    payload = decoded;
+    signature = base64UrlDecode(parts[2]);
+  } catch {
+    return reject('malformed');
+  }
+
+  if (ULB_PUBLIC_KEYS.length === 0) {
+    return reject('not_configured', payload);
+  }
+
+  const key = getTrustedKey(payload.kid);
+  if (!key) {
+    return reject('unknown_key', payload);
+  }
+
+  let signatureValid = false;
+  try {
+    const message = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+    signatureValid = signature.length === 64
+      && await verifyAsync(signature, message, base64UrlDecode(key.publicKey));
+  } catch {
+    signatureValid = false;
+  }
+  if (!signatureValid) {
+    return reject('tampered', payload);
+  }
+
+  // Only checked once the signature is known to be genuine
+  const today = toDateString(now);
+  if (payload.iat < key.validFrom || (key.validUntil && payload.iat > key.validUntil)) {
+    return reject('unknown_key', payload, `Key ${key.kid} was not in use on ${payload.iat}.`);
+  }
+  if (payload.iat > today) {
+    return reject('not_yet_valid', payload);
+  }
+  const expiry = payload.exp || addDays(payload.iat, DEFAULT_QR_VALIDITY_DAYS);
+  if (expiry < today) {
+    return reject('expired', payload, `Expired on ${expiry}.`);
+  }
+
+  const revocation = REVOKED_QR_CODES.find(r =>
+    r.hid === payload.hid && (!r.issuedBefore || payload.iat < r.issuedBefore)
+  );
+  if (revocation) {
+    return reject('revoked', payload, revocation.reason);
+  }
+
+  return { valid: true, payload };
+};
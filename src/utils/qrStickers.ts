@@ -0,0 +1,233 @@
+// Household QR sticker sheets for SwachhSathi
+// Signs a code per household and lays them out as printable A4 SVG pages,
+// with the house number and ward printed under each code.
+
+import { create } from 'qrcode';
+import { getPublicKeyAsync } from '@noble/ed25519';
+import { base64UrlDecode, base64UrlEncode, signHouseholdPayload, type HouseholdQRPayload } from './qrSignature';
+import { QR_KEYS_CONFIG_ERROR, ULB_PUBLIC_KEYS } from './qrKeys';
+
+export interface StickerHousehold {
+  id: string;
+  houseNumber: string;
+  address: string;
+  ward: string;
+}
+
+export interface HouseholdSticker {
+  household: StickerHousehold;
+  payload: HouseholdQRPayload;
+  qrText: string;
+}
+
+export interface StickerSheetLayout {
+  pageWidthMm: number;
+  pageHeightMm: number;
+  marginMm: number;
+  gapMm: number;
+  columns: number;
+  rows: number;
+}
+
+// A4 portrait, 15 stickers per sheet
+export const DEFAULT_STICKER_LAYOUT: StickerSheetLayout = {
+  pageWidthMm: 210,
+  pageHeightMm: 297,
+  marginMm: 10,
+  gapMm: 4,
+  columns: 3,
+  rows: 5
+};
+
+const escapeXml = (text: string): string => {
+  return text.replace(/[<>&'"]/g, char => ({
+    '<': '&lt;',
+    '>': '&gt;',
+    '&': '&amp;',
+    '\'': '&apos;',
+    '"': '&quot;'
+  }[char] as string));
+};
+
+const truncate = (text: string, maxLength: number): string => {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+};
+
+// Minimal CSV reader: id,house number,address,ward with optional header row and quoted fields
+export const parseHouseholdCsv = (csv: string): StickerHousehold[] => {
+  const rows = csv.split(/\r?\n/).filter(line => line.trim().length > 0).map(line => {
+    const fields: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"' && quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = !quoted;
+      } else if (char === ',' && !quoted) {
+        fields.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    fields.push(current.trim());
+    return fields;
+  });
+
+  if (rows.length > 0 && rows[0][0]?.toLowerCase() === 'id') {
+    rows.shift();
+  }
+
+  return rows
+    .filter(fields => fields.length >= 4 && fields[0])
+    .map(([id, houseNumber, address, ward]) => ({ id, houseNumber, address, ward }));
+};
+
+// Refuse to print stickers the scanner would reject as signed by an unknown authority
+export const assertSigningKeyMatches = async (kid: string, secretKey: string): Promise<Uint8Array> => {
+  if (ULB_PUBLIC_KEYS.length === 0) {
+    throw new Error(QR_KEYS_CONFIG_ERROR);
+  }
+  const key = ULB_PUBLIC_KEYS.find(k => k.kid === kid);
+  if (!key) {
+    throw new Error(`No public key with id ${kid} is configured in VITE_QR_PUBLIC_KEYS`);
+  }
+
+  let secret: Uint8Array;
+  try {
+    secret = base64UrlDecode(secretKey.trim());
+  } catch {
+    throw new Error('The secret key is not valid base64url');
+  }
+  if (secret.length !== 32) {
+    throw new Error('The secret key must be 32 bytes');
+  }
+
+  const publicKey = base64UrlEncode(await getPublicKeyAsync(secret));
+  if (publicKey !== key.publicKey) {
+    throw new Error(`The secret key does not belong to ${kid}`);
+  }
+  return secret;
+};
+
+export const generateHouseholdStickers = async (
+  households: StickerHousehold[],
+  options: { kid: string; secretKey: Uint8Array; issueDate: string; expiryDate?: string }
+): Promise<HouseholdSticker[]> => {
+  return Promise.all(households.map(async household => {
+    const payload: HouseholdQRPayload = {
+      v: 1,
+      kid: options.kid,
+      hid: household.id,
+      ward: household.ward,
+      iat: options.issueDate,
+      ...(options.expiryDate ? { exp: options.expiryDate } : {})
+    };
+    return {
+      household,
+      payload,
+      qrText: await signHouseholdPayload(payload, options.secretKey)
+    };
+  }));
+};
+
+// QR modules as a single SVG path, scaled into a size x size box at (x, y)
+export const renderQRPath = (text: string, x: number, y: number, size: number): string => {
+  const qr = create(text, { errorCorrectionLevel: 'M' });
+  const count = qr.modules.size;
+  const moduleSize = size / count;
+  const round = (value: number) => value.toFixed(2);
+  let path = '';
+  // One rectangle per horizontal run of dark modules keeps the SVG small
+  for (let row = 0; row < count; row++) {
+    let col = 0;
+    while (col < count) {
+      if (!qr.modules.get(row, col)) {
+        col++;
+        continue;
+      }
+      const start = col;
+      while (col < count && qr.modules.get(row, col)) col++;
+      const width = (col - start) * moduleSize;
+      path += `M${round(x + start * moduleSize)} ${round(y + row * moduleSize)}h${round(width)}v${round(moduleSize)}h-${round(width)}z`;
+    }
+  }
+  return `<path d="${path}" fill="#000"/>`;
+};
+
+const renderSticker = (sticker: HouseholdSticker, x: number, y: number, width: number, height: number): string => {
+  const textSpace = 12;
+  const qrSize = Math.min(width - 4, height - textSpace - 4);
+  const qrX = x + (width - qrSize) / 2;
+  const qrY = y + 2;
+  const centerX = x + width / 2;
+  const { household } = sticker;
+
+  return [
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="2" fill="none" stroke="#bbb" stroke-width="0.2" stroke-dasharray="1 1"/>`,
+    renderQRPath(sticker.qrText, qrX, qrY, qrSize),
+    `<text x="${centerX}" y="${qrY + qrSize + 4.5}" text-anchor="middle" font-size="4" font-weight="bold">${escapeXml(truncate(`House ${household.houseNumber}`, 28))}</text>`,
+    `<text x="${centerX}" y="${qrY + qrSize + 9}" text-anchor="middle" font-size="3">${escapeXml(truncate(`Ward ${household.ward} · ${household.id}`, 36))}</text>`
+  ].join('');
+};
+
+// One SVG document per A4 page, sized in millimetres so it prints at true scale
+export const buildStickerSheets = (
+  stickers: HouseholdSticker[],
+  layout: StickerSheetLayout = DEFAULT_STICKER_LAYOUT
+): string[] => {
+  const perPage = layout.columns * layout.rows;
+  const cellWidth = (layout.pageWidthMm - 2 * layout.marginMm - (layout.columns - 1) * layout.gapMm) / layout.columns;
+  const cellHeight = (layout.pageHeightMm - 2 * layout.marginMm - (layout.rows - 1) * layout.gapMm) / layout.rows;
+  const pages: string[] = [];
+
+  for (let start = 0; start < stickers.length; start += perPage) {
+    const cells = stickers.slice(start, start + perPage).map((sticker, index) => {
+      const col = index % layout.columns;
+      const row = Math.floor(index / layout.columns);
+      return renderSticker(
+        sticker,
+        layout.marginMm + col * (cellWidth + layout.gapMm),
+        layout.marginMm + row * (cellHeight + layout.gapMm),
+        cellWidth,
+        cellHeight
+      );
+    });
+
+    pages.push(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.pageWidthMm}mm" height="${layout.pageHeightMm}mm" ` +
+      `viewBox="0 0 ${layout.pageWidthMm} ${layout.pageHeightMm}" font-family="sans-serif">` +
+      `<rect width="100%" height="100%" fill="#fff"/>${cells.join('')}</svg>`
+    );
+  }
+
+  return pages;
+};
+
+// Print dialog with one page per sheet; "Save as PDF" gives a PDF
+export const printStickerSheets = (pages: string[], title: string): void => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Pop-up blocked. Allow pop-ups to print sticker sheets.');
+  }
+  printWindow.document.write(
+    `<!doctype html><html><head><title>${escapeXml(title)}</title>` +
+    '<style>@page{size:A4;margin:0}body{margin:0}.page{page-break-after:always;width:210mm;height:297mm}</style>' +
+    `</head><body>${pages.map(page => `<div class="page">${page}</div>`).join('')}</body></html>`
+  );
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
+
+export const downloadStickerSheet = (page: string, filename: string): void => {
+  const url = URL.createObjectURL(new Blob([page], { type: 'image/svg+xml' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
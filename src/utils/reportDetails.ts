@@ -0,0 +1,132 @@
+// Structured details for dumping reports
+// What was dumped, how bad it is and how much there is, validated with zod before a report is
+// filed and used to put the most urgent reports at the top of the moderation queue.
+
+import { z } from 'zod';
+import type { IllegalDumpingReport } from './api';
+
+export const dumpingCategorySchema = z.enum([
+  'Construction Debris',
+  'Household Mixed',
+  'Garden Waste',
+  'Plastic',
+  'E-Waste',
+  'Biomedical',
+  'Dead Animal',
+  'Burning',
+  'Other'
+]);
+
+export const reportSeveritySchema = z.enum(['Low', 'Medium', 'High', 'Critical']);
+
+export const volumeEstimateSchema = z.enum(['Few Bags', 'Handcart', 'Tractor Load', 'Truck Load']);
+
+export type DumpingCategory = z.infer<typeof dumpingCategorySchema>;
+export type ReportSeverity = z.infer<typeof reportSeveritySchema>;
+export type VolumeEstimate = z.infer<typeof volumeEstimateSchema>;
+
+export const DUMPING_CATEGORIES: { category: DumpingCategory; description: string; hazardous?: boolean }[] = [
+  { category: 'Construction Debris', description: 'Rubble, sand, tiles' },
+  { category: 'Household Mixed', description: 'Unsegregated bags' },
+  { category: 'Garden Waste', description: 'Branches, leaves' },
+  { category: 'Plastic', description: 'Bags, bottles, packaging' },
+  { category: 'E-Waste', description: 'Electronics, batteries', hazardous: true },
+  { category: 'Biomedical', description: 'Syringes, dressings', hazardous: true },
+  { category: 'Dead Animal', description: 'Carcass or remains', hazardous: true },
+  { category: 'Burning', description: 'Waste on fire or smouldering', hazardous: true },
+  { category: 'Other', description: 'Describe below' }
+];
+
+export const REPORT_SEVERITIES: { severity: ReportSeverity; description: string }[] = [
+  { severity: 'Low', description: 'Litter, easy to clear' },
+  { severity: 'Medium', description: 'Growing pile, smell' },
+  { severity: 'High', description: 'Large pile, pests' },
+  { severity: 'Critical', description: 'Health or safety risk' }
+];
+
+export const VOLUME_ESTIMATES: { volume: VolumeEstimate; description: string }[] = [
+  { volume: 'Few Bags', description: 'Under 0.5 m³' },
+  { volume: 'Handcart', description: 'About 1 m³' },
+  { volume: 'Tractor Load', description: 'About 3 m³' },
+  { volume: 'Truck Load', description: 'Over 6 m³' }
+];
+
+export const reportDetailsSchema = z.object({
+  category: dumpingCategorySchema,
+  severity: reportSeveritySchema,
+  estimated_volume: volumeEstimateSchema,
+  blocks_drain_or_road: z.boolean(),
+  description: z.string().trim().max(500, 'Keep the description under 500 characters').optional()
+}).refine(details => details.category !== 'Other' || !!details.description, {
+  message: "Describe what was dumped when the category is 'Other'",
+  path: ['description']
+});
+
+export type ReportDetails = z.infer<typeof reportDetailsSchema>;
+
+// First problem per field, keyed like the report
+export type ReportDetailErrors = Partial<Record<keyof ReportDetails, string>>;
+
+const FIELD_LABELS: Record<keyof ReportDetails, string> = {
+  category: 'Choose what was dumped',
+  severity: 'Choose how severe it is',
+  estimated_volume: 'Estimate how much there is',
+  blocks_drain_or_road: 'Say whether it blocks a drain or road',
+  description: 'Check the description'
+};
+
+export const validateReportDetails = (input: Partial<ReportDetails>): { details?: ReportDetails; errors: ReportDetailErrors } => {
+  const result = reportDetailsSchema.safeParse(input);
+  if (result.success) {
+    return { details: result.data, errors: {} };
+  }
+
+  const errors: ReportDetailErrors = {};
+  for (const issue of result.error.issues) {
+    const field = issue.path[0] as keyof ReportDetails;
+    if (!errors[field]) {
+      // Enum and type errors read better as a prompt than zod's default message
+      errors[field] = issue.code === 'custom' || issue.code === 'too_big' ? issue.message : FIELD_LABELS[field];
+    }
+  }
+  return { errors };
+};
+
+const SEVERITY_WEIGHT: Record<ReportSeverity, number> = { Low: 10, Medium: 20, High: 30, Critical: 40 };
+const VOLUME_WEIGHT: Record<VolumeEstimate, number> = { 'Few Bags': 0, Handcart: 5, 'Tractor Load': 10, 'Truck Load': 15 };
+
+export type ReportPriority = 'Urgent' | 'High' | 'Normal';
+
+// Higher is more urgent. Reports filed before details existed count as Medium severity.
+export const getPriorityScore = (report: IllegalDumpingReport): number => {
+  const hazardous = DUMPING_CATEGORIES.some(option => option.category === report.category && option.hazardous);
+  return SEVERITY_WEIGHT[report.severity || 'Medium'] +
+    (report.estimated_volume ? VOLUME_WEIGHT[report.estimated_volume] : 0) +
+    (hazardous ? 15 : 0) +
+    (report.blocks_drain_or_road ? 20 : 0) +
+    // Each collector who confirmed the pile, up to five
+    Math.min(report.confirmations?.length || 0, 5) * 3;
+};
+
+export const getReportPriority = (report: IllegalDumpingReport): ReportPriority => {
+  const score = getPriorityScore(report);
+  if (score >= 40) return 'Urgent';
+  if (score >= 30) return 'High';
+  return 'Normal';
+};
+
+// Most urgent first, then oldest first
+export const sortByPriority = (reports: IllegalDumpingReport[]): IllegalDumpingReport[] => {
+  return [...reports].sort((a, b) =>
+    getPriorityScore(b) - getPriorityScore(a) ||
+    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+};
+
+export const getPriorityColor = (priority: ReportPriority): string => {
+  switch (priority) {
+    case 'Urgent': return 'bg-destructive text-destructive-foreground';
+    case 'High': return 'bg-warning text-warning-foreground';
+    default: return 'bg-muted text-muted-foreground';
+  }
+};
@@ -0,0 +1,169 @@
+// Drafts of dumping reports for SwachhSathi Collector App
+// The report form saves as it is filled in, so switching to the scanner or a reload doesn't
+// lose photos already taken. Drafts stay on this device and are never synced. The form fields
+// live in localStorage; photos are kept as Blobs in the data store's photo store, or inline with
+// the fields when the store has none.
+
+import { CollectorAPI, convertFileToBase64 } from './api';
+import { supportsPhotoStore } from './dataStore';
+import type { LocationFix } from './location';
+import type { PhotoMetadata } from './photoMetadata';
+import type { DumpingCategory, ReportSeverity, VolumeEstimate } from './reportDetails';
+
+// A compressed photo and the EXIF read from its original file
+export interface CapturedPhoto {
+  id: string; // Key of the photo in the photo store once it is saved with a draft
+  dataUrl: string;
+  metadata: PhotoMetadata;
+}
+
+export interface ReportDraft {
+  id: string;
+  collector_id: string;
+  created_at: string;
+  updated_at: string;
+  photo_ids: string[]; // In display order
+  photo_metadata: PhotoMetadata[]; // Index-aligned with photo_ids
+  inline_photos?: CapturedPhoto[]; // Kept in localStorage when the data store has no photo store
+  photos_dropped?: number; // Photos that could not be kept with the draft
+  location?: LocationFix;
+  category?: DumpingCategory;
+  severity?: ReportSeverity;
+  estimated_volume?: VolumeEstimate;
+  blocks_drain_or_road?: boolean;
+  description?: string;
+}
+
+// The form as handed to ReportDrafts.save, with its photos
+export type ReportDraftInput = Omit<ReportDraft, 'updated_at' | 'photo_ids' | 'photo_metadata' | 'inline_photos' | 'photos_dropped'> & {
+  photos: CapturedPhoto[];
+};
+
+const DRAFTS_KEY = 'report_drafts';
+
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const getDraftPhotoCount = (draft: ReportDraft): number =>
+  (draft.photo_ids?.length || 0) + (draft.inline_photos?.length || 0);
+
+export class ReportDrafts {
+  // Saves and removals run one at a time so a slow photo write can't be overtaken
+  private static queue: Promise<unknown> = Promise.resolve();
+
+  private static readAll(): ReportDraft[] {
+    const stored = localStorage.getItem(DRAFTS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  private static writeAll(drafts: ReportDraft[]): void {
+    localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts));
+  }
+
+  private static enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Most recently edited first
+  static list(collectorId: string): ReportDraft[] {
+    return this.readAll()
+      .filter(draft => draft.collector_id === collectorId)
+      .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  }
+
+  static get(id: string): ReportDraft | null {
+    return this.readAll().find(draft => draft.id === id) || null;
+  }
+
+  // A photo that can't be stored is left out, along with the newer ones, so the rest of the
+  // form is still kept
+  static save(draft: ReportDraftInput): Promise<ReportDraft> {
+    return this.enqueue(async () => {
+      const { photos, ...fields } = draft;
+      const store = CollectorAPI.getDataStore();
+      if (!supportsPhotoStore(store)) {
+        return this.saveInline(fields, photos);
+      }
+
+      const previousIds = this.get(draft.id)?.photo_ids || [];
+      const kept: CapturedPhoto[] = [];
+      for (const photo of photos) {
+        try {
+          if (!previousIds.includes(photo.id)) {
+            await store.savePhoto(photo.id, photo.dataUrl);
+          }
+          kept.push(photo);
+        } catch (error) {
+          if (!isQuotaError(error)) throw error;
+          break;
+        }
+      }
+      const removedIds = previousIds.filter(id => !kept.some(photo => photo.id === id));
+      if (removedIds.length > 0) {
+        await store.deletePhotos(removedIds);
+      }
+
+      const saved: ReportDraft = {
+        ...fields,
+        photo_ids: kept.map(photo => photo.id),
+        photo_metadata: kept.map(photo => photo.metadata),
+        photos_dropped: photos.length - kept.length || undefined,
+        updated_at: new Date().toISOString()
+      };
+      this.writeAll([...this.readAll().filter(existing => existing.id !== draft.id), saved]);
+      return saved;
+    });
+  }
+
+  // Without a photo store the photos share the localStorage quota with every other draft, so
+  // the newest are left out until the draft fits
+  private static saveInline(fields: Omit<ReportDraftInput, 'photos'>, photos: CapturedPhoto[]): ReportDraft {
+    const others = this.readAll().filter(existing => existing.id !== fields.id);
+    for (let count = photos.length; ; count--) {
+      const saved: ReportDraft = {
+        ...fields,
+        photo_ids: [],
+        photo_metadata: [],
+        inline_photos: count > 0 ? photos.slice(0, count) : undefined,
+        photos_dropped: photos.length - count || undefined,
+        updated_at: new Date().toISOString()
+      };
+      try {
+        this.writeAll([...others, saved]);
+        return saved;
+      } catch (error) {
+        if (!isQuotaError(error) || count === 0) throw error;
+      }
+    }
+  }
+
+  // The draft's photos as data URLs, in display order
+  static async loadPhotos(draft: ReportDraft): Promise<CapturedPhoto[]> {
+    const store = CollectorAPI.getDataStore();
+    const stored = await Promise.all((draft.photo_ids || []).map(async (id, index) => {
+      const blob = await store.getPhoto(id);
+      return blob ? { id, dataUrl: await convertFileToBase64(blob), metadata: draft.photo_metadata?.[index] || {} } : null;
+    }));
+    return [...stored.filter(Boolean), ...(draft.inline_photos || [])];
+  }
+
+  // Also deletes the draft's photos; call when a draft is discarded or its report is submitted
+  static remove(id: string): Promise<void> {
+    return this.enqueue(async () => {
+      const photoIds = this.get(id)?.photo_ids || [];
+      this.writeAll(this.readAll().filter(draft => draft.id !== id));
+      const store = CollectorAPI.getDataStore();
+      if (photoIds.length > 0 && supportsPhotoStore(store)) {
+        await store.deletePhotos(photoIds);
+      }
+    });
+  }
+
+  // Nothing worth keeping yet: the form was opened and left untouched
+  static isEmpty(draft: Omit<ReportDraftInput, 'id' | 'collector_id' | 'created_at'>): boolean {
+    return draft.photos.length === 0 && !draft.location && !draft.category && !draft.severity &&
+      !draft.estimated_volume && !draft.blocks_drain_or_road && !draft.description?.trim();
+  }
+}
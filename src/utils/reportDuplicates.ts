@@ -0,0 +1,39 @@
+// Nearby duplicate detection for dumping reports
+// Collectors on the same route often find the same pile; before a new report is filed the
+// app looks for open reports close by so the collector can add to one instead.
+
+import type { IllegalDumpingReport, ReportStatus } from './api';
+import { calculateDistance, hasLocation } from './location';
+
+export interface NearbyReport {
+  report: IllegalDumpingReport;
+  distanceMeters: number;
+}
+
+export const DEFAULT_DUPLICATE_RADIUS_METERS = 50;
+
+// Anything not rejected or cleared still describes a pile on the ground
+const CLOSED_STATUSES: ReportStatus[] = ['Rejected', 'Resolved'];
+
+// Read the search radius from Vite env (see .env.example)
+export const getDuplicateRadius = (): number => {
+  const radius = Number(import.meta.env.VITE_DUPLICATE_REPORT_RADIUS_M);
+  return Number.isFinite(radius) && radius > 0 ? radius : DEFAULT_DUPLICATE_RADIUS_METERS;
+};
+
+// Open reports within radiusMeters of the location, nearest first
+export const findNearbyReports = (
+  location: { lat: number; lng: number },
+  reports: IllegalDumpingReport[],
+  radiusMeters: number = getDuplicateRadius()
+): NearbyReport[] => {
+  return reports
+    .filter(report => !CLOSED_STATUSES.includes(report.status))
+    .filter(report => hasLocation(report.latitude, report.longitude))
+    .map(report => ({
+      report,
+      distanceMeters: calculateDistance(location.lat, location.lng, report.latitude, report.longitude) * 1000
+    }))
+    .filter(nearby => nearby.distanceMeters <= radiusMeters)
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+};
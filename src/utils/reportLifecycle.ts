@@ -0,0 +1,73 @@
+// Dumping report lifecycle for SwachhSathi Collector App
+// A report is reviewed (Verified/Rejected), handed to a cleanup crew and closed with an
+// "after" photo; every step lands in status_history, which the metrics below are read from.
+
+import type { IllegalDumpingReport, ReportStatus } from './api';
+
+// Statuses a report may move to from each status
+export const REPORT_TRANSITIONS: Record<ReportStatus, ReportStatus[]> = {
+  'Pending': ['Verified', 'Rejected'],
+  'Verified': ['Assigned', 'Rejected'],
+  'Assigned': ['Assigned', 'Cleanup In Progress'], // Assigned again to hand over to another crew
+  'Cleanup In Progress': ['Resolved'],
+  'Resolved': ['Reopened'],
+  'Reopened': ['Assigned'],
+  'Rejected': []
+};
+
+// Decisions only a supervisor makes; crews move their own reports through cleanup
+export const SUPERVISOR_STATUSES: ReportStatus[] = ['Verified', 'Rejected', 'Assigned', 'Reopened'];
+
+// Steps only the assigned crew takes
+export const CREW_STATUSES: ReportStatus[] = ['Cleanup In Progress', 'Resolved'];
+
+// Verified but not yet cleared
+export const OPEN_STATUSES: ReportStatus[] = ['Verified', 'Assigned', 'Cleanup In Progress', 'Reopened'];
+
+export interface ResolutionMetrics {
+  open: number;
+  resolved: number;
+  averageHours: number | null; // Report time to its latest resolution
+  medianHours: number | null;
+  reopened: number; // Resolved reports that had to be reopened at least once
+}
+
+export const canTransition = (from: ReportStatus, to: ReportStatus): boolean => {
+  return REPORT_TRANSITIONS[from].includes(to);
+};
+
+export const getResolutionHours = (report: IllegalDumpingReport): number | null => {
+  if (report.status !== 'Resolved') return null;
+  const resolved = [...(report.status_history || [])].reverse().find(change => change.status === 'Resolved');
+  if (!resolved) return null;
+  const elapsed = new Date(resolved.changed_at).getTime() - new Date(report.timestamp).getTime();
+  return Math.max(0, elapsed) / (60 * 60 * 1000);
+};
+
+export const computeResolutionMetrics = (reports: IllegalDumpingReport[]): ResolutionMetrics => {
+  const hours = reports
+    .map(getResolutionHours)
+    .filter((value): value is number => value !== null)
+    .sort((a, b) => a - b);
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  const middle = Math.floor(hours.length / 2);
+  const median = hours.length % 2 ? hours[middle] : (hours[middle - 1] + hours[middle]) / 2;
+
+  return {
+    open: reports.filter(report => OPEN_STATUSES.includes(report.status)).length,
+    resolved: hours.length,
+    averageHours: hours.length ? round(hours.reduce((sum, value) => sum + value, 0) / hours.length) : null,
+    medianHours: hours.length ? round(median) : null,
+    reopened: reports.filter(report =>
+      report.status === 'Resolved' && report.status_history?.some(change => change.status === 'Reopened')
+    ).length
+  };
+};
+
+export const formatDuration = (hours: number | null): string => {
+  if (hours === null) return '—';
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  if (hours < 48) return `${Math.round(hours * 10) / 10}h`;
+  return `${Math.round(hours / 24 * 10) / 10}d`;
+};
@@ -1,10 +1,17 @@
 // QR Scanner utilities for SwachhSathi Collector App
 
+import { CollectorAPI } from './api';
+import { generateUuidV7 } from './ids';
+import { verifySignedQR, type QRRejectionReason } from './qrSignature';
+
 export interface QRScanResult {
   text: string;
   userId?: string;
+  ward?: string;
+  issuedAt?: string;
   isValid: boolean;
   error?: string;
+  rejectionReason?: QRRejectionReason;
 }
 
 export interface ScannerSettings {
@@ -22,48 +29,42 @@ export const DEFAULT_SCANNER_SETTINGS: ScannerSettings = {
   qrbox: { width: 250, height: 250 } // Scan area size
 };
 
-// Parse QR code data (SwachhSathi format)
-export const parseQRCode = (qrText: string): QRScanResult => {
-  try {
-    // Expected format: "SWACHH_USER_{userId}" or JSON with user data
-    if (qrText.startsWith('SWACHH_USER_')) {
-      const userId = qrText.replace('SWACHH_USER_', '');
-      if (userId && userId.length > 0) {
-        return {
-          text: qrText,
-          userId: userId,
-          isValid: true
-        };
-      }
-    }
-
-    // Try parsing as JSON (for more complex QR codes)
-    try {
-      const parsed = JSON.parse(qrText);
-      if (parsed.userId || parsed.user_id) {
-        return {
-          text: qrText,
-          userId: parsed.userId || parsed.user_id,
-          isValid: true
-        };
-      }
-    } catch {
-      // Not JSON, continue with other formats
-    }
+// Parse and verify a household QR code (signed SwachhSathi format, see qrSignature.ts)
+export const parseQRCode = async (qrText: string): Promise<QRScanResult> => {
+  const verification = await verifySignedQR(qrText);
 
-    // Generic handling for other QR codes
+  if (verification.valid) {
     return {
       text: qrText,
-      userId: qrText, // Use the full text as userId for prototype
+      userId: verification.payload.hid,
+      ward: verification.payload.ward,
+      issuedAt: verification.payload.iat,
       isValid: true
     };
-  } catch (error) {
-    return {
-      text: qrText,
-      isValid: false,
-      error: 'Invalid QR code format'
-    };
   }
+
+  // Legacy unsigned stickers, accepted only while a ward is being re-issued
+  if (
+    verification.reason === 'unsigned' &&
+    import.meta.env.VITE_ALLOW_UNSIGNED_QR === 'true' &&
+    qrText.startsWith('SWACHH_USER_')
+  ) {
+    const userId = qrText.replace('SWACHH_USER_', '');
+    if (isValidUserId(userId)) {
+      return {
+        text: qrText,
+        userId,
+        isValid: true
+      };
+    }
+  }
+
+  return {
+    text: qrText,
+    isValid: false,
+    error: verification.message,
+    rejectionReason: verification.reason
+  };
 };
 
 // Validate user ID format
@@ -72,7 +73,7 @@ export const isValidUserId = (userId: string): boolean => {
   return userId.length >= 3 && /^[a-zA-Z0-9_-]+$/.test(userId);
 };
 
-// Generate mock QR codes for testing
+// Generate legacy unsigned codes for testing (accepted only with VITE_ALLOW_UNSIGNED_QR=true)
 export const generateMockQRCode = (userId: string): string => {
   return `SWACHH_USER_${userId}`;
 };
@@ -103,49 +104,42 @@ export interface ScanHistory {
   synced: boolean;
 }
 
+// Persisted through the configured CollectorDataStore
 export class ScanHistoryManager {
-  private static STORAGE_KEY = 'scan_history';
-
-  static addScan(userId: string, location?: { lat: number; lng: number }): ScanHistory {
+  static async addScan(userId: string, location?: { lat: number; lng: number }): Promise<ScanHistory> {
     const scan: ScanHistory = {
-      id: `scan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: generateUuidV7(),
       userId,
       timestamp: new Date().toISOString(),
       location,
       synced: false
     };
 
-    const history = this.getHistory();
-    history.push(scan);
-    this.saveHistory(history);
-    
+    await CollectorAPI.getDataStore().saveScan(scan);
     return scan;
   }
 
-  static getHistory(): ScanHistory[] {
-    const stored = localStorage.getItem(this.STORAGE_KEY);
-    return stored ? JSON.parse(stored) : [];
+  static getHistory(): Promise<ScanHistory[]> {
+    return CollectorAPI.getDataStore().getScanHistory();
   }
 
-  static getUnsyncedScans(): ScanHistory[] {
-    return this.getHistory().filter(scan => !scan.synced);
+  static async getUnsyncedScans(): Promise<ScanHistory[]> {
+    const history = await this.getHistory();
+    return history.filter(scan => !scan.synced);
   }
 
-  static markAsSynced(scanId: string): void {
-    const history = this.getHistory();
+  static async markAsSynced(scanId: string): Promise<void> {
+    const history = await this.getHistory();
     const scan = history.find(s => s.id === scanId);
     if (scan) {
-      scan.synced = true;
-      this.saveHistory(history);
+      await CollectorAPI.getDataStore().saveScan({ ...scan, synced: true });
     }
   }
 
-  static clearSyncedScans(): void {
-    const history = this.getHistory().filter(scan => !scan.synced);
-    this.saveHistory(history);
+  static async clearSyncedScans(): Promise<void> {
+    const history = await this.getHistory();
+    await CollectorAPI.getDataStore().deleteScans(
+      history.filter(scan => scan.synced).map(scan => scan.id)
+    );
   }
-
-  private static saveHistory(history: ScanHistory[]): void {
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(history));
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,264 @@
+// Shift tracking for SwachhSathi Collector App
+// While a shift runs, the collector's position is thinned into a breadcrumb trail and stored on a
+// ShiftTrack as an encoded polyline, so a supervisor can replay the route against the collections made.
+
+import { CollectorAPI, type CollectionLog, type ShiftTrack } from './api';
+import {
+  calculateDistance,
+  clearLocationWatch,
+  getLocationAccuracyThreshold,
+  hasLocation,
+  watchLocation,
+  type LocationData,
+  type LocationError
+} from './location';
+
+export interface Breadcrumb {
+  lat: number;
+  lng: number;
+  at: number; // Epoch ms
+}
+
+export interface ShiftTrackerState {
+  track: ShiftTrack | null; // The shift running on this device
+  error: string | null; // Last location error, cleared by the next fix
+}
+
+// Where the replay is at a given time: between breadcrumbs index and index + 1
+export interface ReplayFrame {
+  lat: number;
+  lng: number;
+  index: number;
+}
+
+type ShiftListener = (state: ShiftTrackerState) => void;
+
+// A breadcrumb is kept once the collector has moved this far...
+const MIN_DISTANCE_M = 20;
+// ...but no more often than this, so a shift stays a few thousand points at most
+const MIN_INTERVAL_S = 10;
+// Standing still still leaves one this often, so the replay keeps time
+const MAX_INTERVAL_S = 120;
+
+// 5 decimal places, about a metre
+const POLYLINE_FACTOR = 1e5;
+
+// Google's encoded polyline format: zig-zag encoded deltas in 5-bit chunks
+const encodeValue = (value: number): string => {
+  let remaining = value < 0 ? ~(value << 1) : value << 1;
+  let encoded = '';
+  while (remaining >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63);
+    remaining >>= 5;
+  }
+  return encoded + String.fromCharCode(remaining + 63);
+};
+
+export const encodePolyline = (points: { lat: number; lng: number }[]): string => {
+  let prevLat = 0;
+  let prevLng = 0;
+  return points.map(point => {
+    const lat = Math.round(point.lat * POLYLINE_FACTOR);
+    const lng = Math.round(point.lng * POLYLINE_FACTOR);
+    const chunk = encodeValue(lat - prevLat) + encodeValue(lng - prevLng);
+    prevLat = lat;
+    prevLng = lng;
+    return chunk;
+  }).join('');
+};
+
+export const decodePolyline = (encoded: string): { lat: number; lng: number }[] => {
+  const points: { lat: number; lng: number }[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    points.push({ lat: lat / POLYLINE_FACTOR, lng: lng / POLYLINE_FACTOR });
+  }
+  return points;
+};
+
+export const getTrackBreadcrumbs = (track: ShiftTrack): Breadcrumb[] => {
+  const startedAt = new Date(track.started_at).getTime();
+  return decodePolyline(track.polyline)
+    .slice(0, track.offsets_s.length)
+    .map((point, index) => ({ ...point, at: startedAt + track.offsets_s[index] * 1000 }));
+};
+
+export const getTrackDistance = (points: { lat: number; lng: number }[]): number => {
+  return points.reduce((total, point, index) => (
+    index === 0 ? 0 : total + calculateDistance(points[index - 1].lat, points[index - 1].lng, point.lat, point.lng)
+  ), 0);
+};
+
+// The fields a new breadcrumb changes on the stored track
+export const toTrackChanges = (track: ShiftTrack, points: Breadcrumb[]): Partial<ShiftTrack> => {
+  const startedAt = new Date(track.started_at).getTime();
+  return {
+    polyline: encodePolyline(points),
+    offsets_s: points.map(point => Math.max(0, Math.round((point.at - startedAt) / 1000))),
+    distance_km: Math.round(getTrackDistance(points) * 1000) / 1000
+  };
+};
+
+export const shouldRecordBreadcrumb = (previous: Breadcrumb | null, next: Breadcrumb): boolean => {
+  if (!previous) return true;
+  const elapsed = (next.at - previous.at) / 1000;
+  if (elapsed < MIN_INTERVAL_S) return false;
+  if (elapsed >= MAX_INTERVAL_S) return true;
+  return calculateDistance(previous.lat, previous.lng, next.lat, next.lng) * 1000 >= MIN_DISTANCE_M;
+};
+
+// Walk the route at a constant speed between breadcrumbs
+export const getReplayFrame = (points: Breadcrumb[], at: number): ReplayFrame | null => {
+  if (points.length === 0) return null;
+  if (at <= points[0].at) return { lat: points[0].lat, lng: points[0].lng, index: 0 };
+
+  for (let index = 0; index < points.length - 1; index++) {
+    const from = points[index];
+    const to = points[index + 1];
+    if (at < to.at) {
+      const progress = (at - from.at) / (to.at - from.at);
+      return {
+        lat: from.lat + (to.lat - from.lat) * progress,
+        lng: from.lng + (to.lng - from.lng) * progress,
+        index
+      };
+    }
+  }
+
+  const last = points[points.length - 1];
+  return { lat: last.lat, lng: last.lng, index: points.length - 1 };
+};
+
+// Collections made during the shift that have a location, in order
+export const getShiftStops = (track: ShiftTrack, logs: CollectionLog[]): CollectionLog[] => {
+  const startedAt = new Date(track.started_at).getTime();
+  const endedAt = track.ended_at ? new Date(track.ended_at).getTime() : Date.now();
+  return logs
+    .filter(log => log.collector_id === track.collector_id && hasLocation(log.latitude, log.longitude))
+    .filter(log => {
+      const time = new Date(log.timestamp).getTime();
+      return time >= startedAt && time <= endedAt;
+    })
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+};
+
+// Records only while the app is open; browsers stop location updates for a page in the background
+export class ShiftTracker {
+  private static state: ShiftTrackerState = { track: null, error: null };
+  private static points: Breadcrumb[] = [];
+  private static watchId: number | null = null;
+  private static listeners = new Set<ShiftListener>();
+  private static saving: Promise<unknown> = Promise.resolve();
+
+  static getState(): ShiftTrackerState {
+    return this.state;
+  }
+
+  static subscribe(listener: ShiftListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Carry on with a shift left running when the app was closed or reloaded
+  static async resume(collectorId: string): Promise<void> {
+    if (this.state.track) return;
+    const track = await CollectorAPI.getActiveShiftTrack(collectorId);
+    if (track && !this.state.track) {
+      this.begin(track);
+    }
+  }
+
+  static async start(collectorId: string): Promise<ShiftTrack> {
+    if (this.state.track) return this.state.track;
+    const track = await CollectorAPI.startShiftTrack(collectorId);
+    this.begin(track);
+    return track;
+  }
+
+  static async stop(): Promise<ShiftTrack | null> {
+    const track = this.state.track;
+    if (!track) return null;
+
+    this.clearWatch();
+    try {
+      await this.saving;
+      const ended = await CollectorAPI.endShiftTrack(track.id);
+      this.points = [];
+      this.setState({ track: null, error: null });
+      return ended;
+    } catch (error) {
+      this.watch();
+      throw error;
+    }
+  }
+
+  private static begin(track: ShiftTrack): void {
+    this.points = getTrackBreadcrumbs(track);
+    this.setState({ track, error: null });
+    this.watch();
+  }
+
+  private static watch(): void {
+    this.clearWatch();
+    this.watchId = watchLocation(
+      location => this.handleLocation(location),
+      error => this.handleError(error)
+    );
+  }
+
+  private static clearWatch(): void {
+    if (this.watchId !== null) {
+      clearLocationWatch(this.watchId);
+      this.watchId = null;
+    }
+  }
+
+  private static handleLocation(location: LocationData): void {
+    const { track } = this.state;
+    if (!track) return;
+    if (this.state.error) this.setState({ error: null });
+
+    // Wi-Fi and cell-tower fixes would zig-zag the route, and cached ones predate the shift
+    if (location.accuracy === undefined || location.accuracy > getLocationAccuracyThreshold()) return;
+    if (location.timestamp < new Date(track.started_at).getTime()) return;
+
+    const point: Breadcrumb = { lat: location.latitude, lng: location.longitude, at: location.timestamp };
+    if (!shouldRecordBreadcrumb(this.points[this.points.length - 1] || null, point)) return;
+
+    this.points = [...this.points, point];
+    const changes = toTrackChanges(track, this.points);
+    this.setState({ track: { ...track, ...changes } });
+    // Saved one after another so an older trail never overwrites a newer one
+    this.saving = this.saving
+      .then(() => CollectorAPI.updateShiftTrack(track.id, changes))
+      .catch(error => console.warn('Could not save shift breadcrumb:', error));
+  }
+
+  private static handleError(error: LocationError): void {
+    this.setState({ error: error.message });
+  }
+
+  private static setState(changes: Partial<ShiftTrackerState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
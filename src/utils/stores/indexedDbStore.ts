@@ -0,0 +1,364 @@
+// IndexedDB-backed data store
+// Records live in indexed object stores and photos are kept as Blobs in their own store,
+// so nothing is re-serialised wholesale on insert and the localStorage quota is not a limit.
+
+import type { CollectionLog, Household, IllegalDumpingReport, ShiftTrack } from '../api';
+import type { CollectorDataStore, OutboxEntry, OutboxStore, PhotoStore } from '../dataStore';
+import type { ScanHistory } from '../scanner';
+import { generateUuidV7 } from '../ids';
+
+const DB_NAME = 'swachhsathi';
+const DB_VERSION = 4;
+const MIGRATION_FLAG = 'indexeddb_migrated';
+
+// localStorage keys written by LocalStorageDataStore
+const LEGACY_KEYS = {
+  collectionLogs: 'collection_logs',
+  dumpingReports: 'dumping_reports',
+  scanHistory: 'scan_history'
+};
+
+// Inline photo fields and the photo_id style reference each is swapped for
+const PHOTO_FIELDS = [
+  { inline: 'photo_base64', ref: 'photo_id', prefix: 'photo' },
+  { inline: 'after_photo_base64', ref: 'after_photo_id', prefix: 'after_photo' }
+];
+
+interface StoredPhoto {
+  id: string;
+  blob: Blob;
+  created_at: string;
+}
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Synchronous so it can run inside an open transaction
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/data:(.*?)(;base64)?$/)?.[1] || 'application/octet-stream';
+  const binary = header.endsWith(';base64') ? atob(data) : decodeURIComponent(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+const upgradeSchema = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains('collection_logs')) {
+    const logs = db.createObjectStore('collection_logs', { keyPath: 'id' });
+    logs.createIndex('collector_id', 'collector_id');
+    logs.createIndex('user_id', 'user_id');
+    logs.createIndex('timestamp', 'timestamp');
+  }
+  if (!db.objectStoreNames.contains('dumping_reports')) {
+    const reports = db.createObjectStore('dumping_reports', { keyPath: 'id' });
+    reports.createIndex('collector_id', 'collector_id');
+    reports.createIndex('timestamp', 'timestamp');
+    reports.createIndex('status', 'status');
+  }
+  if (!db.objectStoreNames.contains('scan_history')) {
+    const scans = db.createObjectStore('scan_history', { keyPath: 'id' });
+    scans.createIndex('userId', 'userId');
+    scans.createIndex('timestamp', 'timestamp');
+  }
+  if (!db.objectStoreNames.contains('photos')) {
+    db.createObjectStore('photos', { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains('households')) {
+    const households = db.createObjectStore('households', { keyPath: 'id' });
+    households.createIndex('ward', 'ward');
+  }
+  if (!db.objectStoreNames.contains('outbox')) {
+    const outbox = db.createObjectStore('outbox', { keyPath: 'id' });
+    outbox.createIndex('created_at', 'created_at');
+  }
+  if (!db.objectStoreNames.contains('shift_tracks')) {
+    const tracks = db.createObjectStore('shift_tracks', { keyPath: 'id' });
+    tracks.createIndex('collector_id', 'collector_id');
+  }
+};
+
+export class IndexedDbDataStore implements CollectorDataStore, OutboxStore, PhotoStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.open().catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async open(): Promise<IDBDatabase> {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => upgradeSchema(request.result);
+    const db = await promisifyRequest(request);
+    await this.migrateFromLocalStorage(db);
+    return db;
+  }
+
+  // One-time move of the localStorage arrays written before IndexedDB was available
+  private async migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    if (localStorage.getItem(MIGRATION_FLAG)) return;
+
+    const read = <T>(key: string): T[] => {
+      const item = localStorage.getItem(key);
+      return item ? JSON.parse(item) : [];
+    };
+    const logs = read<CollectionLog>(LEGACY_KEYS.collectionLogs);
+    const reports = read<IllegalDumpingReport>(LEGACY_KEYS.dumpingReports);
+    const scans = read<ScanHistory>(LEGACY_KEYS.scanHistory);
+
+    const tx = db.transaction(['collection_logs', 'dumping_reports', 'scan_history', 'photos'], 'readwrite');
+    logs.forEach(log => tx.objectStore('collection_logs').put(this.extractPhoto(tx, log)));
+    reports.forEach(report => tx.objectStore('dumping_reports').put(this.extractPhoto(tx, report)));
+    scans.forEach(scan => tx.objectStore('scan_history').put(scan));
+    await transactionDone(tx);
+
+    Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+    localStorage.setItem(MIGRATION_FLAG, new Date().toISOString());
+  }
+
+  // Move inline base64 photos into the photos store and keep only references on the record
+  private extractPhoto<T extends CollectionLog | IllegalDumpingReport>(tx: IDBTransaction, record: T): T {
+    const stored: Record<string, unknown> = { ...record };
+    const savePhoto = (id: string, dataUrl: string): string => {
+      const photo: StoredPhoto = { id, blob: dataUrlToBlob(dataUrl), created_at: new Date().toISOString() };
+      tx.objectStore('photos').put(photo);
+      return photo.id;
+    };
+
+    PHOTO_FIELDS.forEach(({ inline, ref, prefix }) => {
+      const dataUrl = stored[inline] as string | undefined;
+      if (!dataUrl) return;
+      stored[ref] = savePhoto(`${prefix}_${record.id}`, dataUrl);
+      delete stored[inline];
+    });
+
+    // Inline photos in a list are appended after the ones already stored
+    const inlineList = stored.photos_base64 as string[] | undefined;
+    if (inlineList?.length) {
+      const existing = (stored.photo_ids as string[] | undefined) || [];
+      stored.photo_ids = [
+        ...existing,
+        ...inlineList.map((dataUrl, index) => savePhoto(`photo_${record.id}_${existing.length + index}`, dataUrl))
+      ];
+      delete stored.photos_base64;
+    }
+    return stored as T;
+  }
+
+  private async getAll<T>(storeName: string, indexName?: string, query?: IDBValidKey): Promise<T[]> {
+    const db = await this.db();
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    const source = indexName ? store.index(indexName) : store;
+    return promisifyRequest(source.getAll(query) as IDBRequest<T[]>);
+  }
+
+  private async getOne<T>(storeName: string, id: string): Promise<T | null> {
+    const db = await this.db();
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    const result = await promisifyRequest(store.get(id) as IDBRequest<T | undefined>);
+    return result || null;
+  }
+
+  private async update<T extends { id?: string }>(storeName: string, id: string, changes: Partial<T>): Promise<T> {
+    const db = await this.db();
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    const existing = await promisifyRequest(store.get(id) as IDBRequest<T | undefined>);
+    if (!existing) {
+      tx.abort();
+      throw new Error(`No record ${id} in ${storeName}`);
+    }
+    const updated = { ...existing, ...changes, id };
+    store.put(updated);
+    await transactionDone(tx);
+    return updated;
+  }
+
+  private async put<T>(storeName: string, value: T): Promise<void> {
+    const db = await this.db();
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).put(value);
+    await transactionDone(tx);
+  }
+
+  private async delete(storeName: string, ids: string[]): Promise<void> {
+    const db = await this.db();
+    const tx = db.transaction(storeName, 'readwrite');
+    ids.forEach(id => tx.objectStore(storeName).delete(id));
+    await transactionDone(tx);
+  }
+
+  getCollectionLogs(collectorId?: string): Promise<CollectionLog[]> {
+    return collectorId
+      ? this.getAll<CollectionLog>('collection_logs', 'collector_id', collectorId)
+      : this.getAll<CollectionLog>('collection_logs');
+  }
+
+  getCollectionLog(id: string): Promise<CollectionLog | null> {
+    return this.getOne<CollectionLog>('collection_logs', id);
+  }
+
+  async addCollectionLog(log: CollectionLog): Promise<CollectionLog> {
+    const newLog: CollectionLog = { ...log, id: log.id || generateUuidV7() };
+    const db = await this.db();
+    const tx = db.transaction(['collection_logs', 'photos'], 'readwrite');
+    const store = tx.objectStore('collection_logs');
+    const existing = await promisifyRequest(store.get(newLog.id) as IDBRequest<CollectionLog | undefined>);
+    if (existing) {
+      await transactionDone(tx);
+      return existing;
+    }
+    const stored = this.extractPhoto(tx, newLog);
+    store.add(stored);
+    await transactionDone(tx);
+    return stored;
+  }
+
+  updateCollectionLog(id: string, changes: Partial<CollectionLog>): Promise<CollectionLog> {
+    return this.update<CollectionLog>('collection_logs', id, changes);
+  }
+
+  getDumpingReports(collectorId?: string): Promise<IllegalDumpingReport[]> {
+    return collectorId
+      ? this.getAll<IllegalDumpingReport>('dumping_reports', 'collector_id', collectorId)
+      : this.getAll<IllegalDumpingReport>('dumping_reports');
+  }
+
+  getDumpingReport(id: string): Promise<IllegalDumpingReport | null> {
+    return this.getOne<IllegalDumpingReport>('dumping_reports', id);
+  }
+
+  async addDumpingReport(report: IllegalDumpingReport): Promise<IllegalDumpingReport> {
+    const newReport: IllegalDumpingReport = { ...report, id: report.id || generateUuidV7() };
+    const db = await this.db();
+    const tx = db.transaction(['dumping_reports', 'photos'], 'readwrite');
+    const store = tx.objectStore('dumping_reports');
+    const existing = await promisifyRequest(store.get(newReport.id) as IDBRequest<IllegalDumpingReport | undefined>);
+    if (existing) {
+      await transactionDone(tx);
+      return existing;
+    }
+    const stored = this.extractPhoto(tx, newReport);
+    store.add(stored);
+    await transactionDone(tx);
+    return stored;
+  }
+
+  // The after photo arrives as an update when a report is resolved
+  async updateDumpingReport(id: string, changes: Partial<IllegalDumpingReport>): Promise<IllegalDumpingReport> {
+    const db = await this.db();
+    const tx = db.transaction(['dumping_reports', 'photos'], 'readwrite');
+    const store = tx.objectStore('dumping_reports');
+    const existing = await promisifyRequest(store.get(id) as IDBRequest<IllegalDumpingReport | undefined>);
+    if (!existing) {
+      tx.abort();
+      throw new Error(`No record ${id} in dumping_reports`);
+    }
+    const updated = this.extractPhoto(tx, { ...existing, ...changes, id });
+    store.put(updated);
+    await transactionDone(tx);
+    return updated;
+  }
+
+  async getPhoto(photoId: string): Promise<Blob | null> {
+    const photo = await this.getOne<StoredPhoto>('photos', photoId);
+    return photo?.blob || null;
+  }
+
+  savePhoto(photoId: string, dataUrl: string): Promise<void> {
+    const photo: StoredPhoto = { id: photoId, blob: dataUrlToBlob(dataUrl), created_at: new Date().toISOString() };
+    return this.put('photos', photo);
+  }
+
+  deletePhotos(photoIds: string[]): Promise<void> {
+    return this.delete('photos', photoIds);
+  }
+
+  getScanHistory(): Promise<ScanHistory[]> {
+    return this.getAll<ScanHistory>('scan_history', 'timestamp');
+  }
+
+  saveScan(scan: ScanHistory): Promise<void> {
+    return this.put('scan_history', scan);
+  }
+
+  deleteScans(scanIds: string[]): Promise<void> {
+    return this.delete('scan_history', scanIds);
+  }
+
+  getHousehold(id: string): Promise<Household | null> {
+    return this.getOne<Household>('households', id);
+  }
+
+  getHouseholds(ward?: string): Promise<Household[]> {
+    return ward
+      ? this.getAll<Household>('households', 'ward', ward)
+      : this.getAll<Household>('households');
+  }
+
+  async replaceWardHouseholds(ward: string, households: Household[]): Promise<void> {
+    const db = await this.db();
+    const tx = db.transaction('households', 'readwrite');
+    const store = tx.objectStore('households');
+    const existingIds = await promisifyRequest(store.index('ward').getAllKeys(ward));
+    existingIds.forEach(id => store.delete(id));
+    households.forEach(household => store.put(household));
+    await transactionDone(tx);
+  }
+
+  getShiftTracks(collectorId?: string): Promise<ShiftTrack[]> {
+    return collectorId
+      ? this.getAll<ShiftTrack>('shift_tracks', 'collector_id', collectorId)
+      : this.getAll<ShiftTrack>('shift_tracks');
+  }
+
+  getShiftTrack(id: string): Promise<ShiftTrack | null> {
+    return this.getOne<ShiftTrack>('shift_tracks', id);
+  }
+
+  async addShiftTrack(track: ShiftTrack): Promise<ShiftTrack> {
+    const newTrack: ShiftTrack = { ...track, id: track.id || generateUuidV7() };
+    const db = await this.db();
+    const tx = db.transaction('shift_tracks', 'readwrite');
+    const store = tx.objectStore('shift_tracks');
+    const existing = await promisifyRequest(store.get(newTrack.id) as IDBRequest<ShiftTrack | undefined>);
+    if (!existing) store.add(newTrack);
+    await transactionDone(tx);
+    return existing || newTrack;
+  }
+
+  updateShiftTrack(id: string, changes: Partial<ShiftTrack>): Promise<ShiftTrack> {
+    return this.update<ShiftTrack>('shift_tracks', id, changes);
+  }
+
+  getOutbox(): Promise<OutboxEntry[]> {
+    return this.getAll<OutboxEntry>('outbox', 'created_at');
+  }
+
+  saveOutboxEntry(entry: OutboxEntry): Promise<void> {
+    return this.put('outbox', entry);
+  }
+
+  deleteOutboxEntry(entryId: string): Promise<void> {
+    return this.delete('outbox', [entryId]);
+  }
+}
@@ -0,0 +1,157 @@
+// localStorage-backed data store (pure offline prototype mode)
+
+import type { CollectionLog, Household, IllegalDumpingReport, ShiftTrack } from '../api';
+import type { CollectorDataStore, OutboxEntry, OutboxStore } from '../dataStore';
+import type { ScanHistory } from '../scanner';
+import { generateUuidV7 } from '../ids';
+
+export class LocalStorageDataStore implements CollectorDataStore, OutboxStore {
+  private getItem<T>(key: string): T[] {
+    const item = localStorage.getItem(key);
+    return item ? JSON.parse(item) : [];
+  }
+
+  private setItem<T>(key: string, data: T[]): void {
+    localStorage.setItem(key, JSON.stringify(data));
+  }
+
+  private updateItem<T extends { id?: string }>(key: string, id: string, changes: Partial<T>): T {
+    const items = this.getItem<T>(key);
+    const index = items.findIndex(item => item.id === id);
+    if (index < 0) {
+      throw new Error(`No record ${id} in ${key}`);
+    }
+    items[index] = { ...items[index], ...changes, id };
+    this.setItem(key, items);
+    return items[index];
+  }
+
+  // Replaying an insert returns the record already stored under that id
+  private insertOnce<T extends { id?: string }>(key: string, record: T): T {
+    const items = this.getItem<T>(key);
+    const id = record.id || generateUuidV7();
+    const existing = items.find(item => item.id === id);
+    if (existing) return existing;
+
+    const newRecord = { ...record, id };
+    items.push(newRecord);
+    this.setItem(key, items);
+    return newRecord;
+  }
+
+  async getCollectionLogs(collectorId?: string): Promise<CollectionLog[]> {
+    const logs = this.getItem<CollectionLog>('collection_logs');
+    return collectorId
+      ? logs.filter(log => log.collector_id === collectorId)
+      : logs;
+  }
+
+  async getCollectionLog(id: string): Promise<CollectionLog | null> {
+    return this.getItem<CollectionLog>('collection_logs').find(log => log.id === id) || null;
+  }
+
+  async addCollectionLog(log: CollectionLog): Promise<CollectionLog> {
+    return this.insertOnce('collection_logs', log);
+  }
+
+  async updateCollectionLog(id: string, changes: Partial<CollectionLog>): Promise<CollectionLog> {
+    return this.updateItem<CollectionLog>('collection_logs', id, changes);
+  }
+
+  async getDumpingReports(collectorId?: string): Promise<IllegalDumpingReport[]> {
+    const reports = this.getItem<IllegalDumpingReport>('dumping_reports');
+    return collectorId
+      ? reports.filter(report => report.collector_id === collectorId)
+      : reports;
+  }
+
+  async getDumpingReport(id: string): Promise<IllegalDumpingReport | null> {
+    return this.getItem<IllegalDumpingReport>('dumping_reports').find(report => report.id === id) || null;
+  }
+
+  async addDumpingReport(report: IllegalDumpingReport): Promise<IllegalDumpingReport> {
+    return this.insertOnce('dumping_reports', report);
+  }
+
+  async updateDumpingReport(id: string, changes: Partial<IllegalDumpingReport>): Promise<IllegalDumpingReport> {
+    return this.updateItem<IllegalDumpingReport>('dumping_reports', id, changes);
+  }
+
+  // Photos stay inline as photo_base64 in this store
+  async getPhoto(photoId: string): Promise<Blob | null> {
+    return null;
+  }
+
+  async getScanHistory(): Promise<ScanHistory[]> {
+    return this.getItem<ScanHistory>('scan_history');
+  }
+
+  async saveScan(scan: ScanHistory): Promise<void> {
+    const history = this.getItem<ScanHistory>('scan_history');
+    const index = history.findIndex(s => s.id === scan.id);
+    if (index >= 0) {
+      history[index] = scan;
+    } else {
+      history.push(scan);
+    }
+    this.setItem('scan_history', history);
+  }
+
+  async deleteScans(scanIds: string[]): Promise<void> {
+    const history = this.getItem<ScanHistory>('scan_history');
+    this.setItem('scan_history', history.filter(scan => !scanIds.includes(scan.id)));
+  }
+
+  async getHousehold(id: string): Promise<Household | null> {
+    return this.getItem<Household>('households').find(household => household.id === id) || null;
+  }
+
+  async getHouseholds(ward?: string): Promise<Household[]> {
+    const households = this.getItem<Household>('households');
+    return ward ? households.filter(household => household.ward === ward) : households;
+  }
+
+  async replaceWardHouseholds(ward: string, households: Household[]): Promise<void> {
+    const others = this.getItem<Household>('households').filter(household => household.ward !== ward);
+    this.setItem('households', [...others, ...households]);
+  }
+
+  async getShiftTracks(collectorId?: string): Promise<ShiftTrack[]> {
+    const tracks = this.getItem<ShiftTrack>('shift_tracks');
+    return collectorId
+      ? tracks.filter(track => track.collector_id === collectorId)
+      : tracks;
+  }
+
+  async getShiftTrack(id: string): Promise<ShiftTrack | null> {
+    return this.getItem<ShiftTrack>('shift_tracks').find(track => track.id === id) || null;
+  }
+
+  async addShiftTrack(track: ShiftTrack): Promise<ShiftTrack> {
+    return this.insertOnce('shift_tracks', track);
+  }
+
+  async updateShiftTrack(id: string, changes: Partial<ShiftTrack>): Promise<ShiftTrack> {
+    return this.updateItem<ShiftTrack>('shift_tracks', id, changes);
+  }
+
+  async getOutbox(): Promise<OutboxEntry[]> {
+    return this.getItem<OutboxEntry>('sync_outbox');
+  }
+
+  async saveOutboxEntry(entry: OutboxEntry): Promise<void> {
+    const outbox = this.getItem<OutboxEntry>('sync_outbox');
+    const index = outbox.findIndex(e => e.id === entry.id);
+    if (index >= 0) {
+      outbox[index] = entry;
+    } else {
+      outbox.push(entry);
+    }
+    this.setItem('sync_outbox', outbox);
+  }
+
+  async deleteOutboxEntry(entryId: string): Promise<void> {
+    const outbox = this.getItem<OutboxEntry>('sync_outbox');
+    this.setItem('sync_outbox', outbox.filter(entry => entry.id !== entryId));
+  }
+}
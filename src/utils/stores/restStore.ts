@@ -0,0 +1,200 @@
+// REST-backed data store (plain JSON API or Supabase/PostgREST)
+
+import type { CollectionLog, Household, IllegalDumpingReport, ShiftTrack } from '../api';
+import type { CollectorDataStore } from '../dataStore';
+import type { ScanHistory } from '../scanner';
+import { getIdempotencyKey } from '../ids';
+
+export interface RestDataStoreOptions {
+  baseUrl: string;
+  apiKey?: string;
+  // 'postgrest' speaks Supabase's filter and return conventions
+  dialect?: 'rest' | 'postgrest';
+}
+
+export class RestRequestError extends Error {
+  constructor(public path: string, public status: number) {
+    super(`Request to ${path} failed with status ${status}`);
+    this.name = 'RestRequestError';
+  }
+}
+
+export class RestDataStore implements CollectorDataStore {
+  private baseUrl: string;
+
+  constructor(private options: RestDataStoreOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/$/, '');
+  }
+
+  private get isPostgrest(): boolean {
+    return this.options.dialect === 'postgrest';
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+    if (this.options.apiKey) {
+      headers['Authorization'] = `Bearer ${this.options.apiKey}`;
+      if (this.isPostgrest) {
+        headers['apikey'] = this.options.apiKey;
+      }
+    }
+    if (this.isPostgrest) {
+      headers['Prefer'] = 'return=representation';
+    }
+    return headers;
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: { ...this.headers(), ...init?.headers }
+    });
+    if (!response.ok) {
+      throw new RestRequestError(path, response.status);
+    }
+    const text = await response.text();
+    return text ? JSON.parse(text) : undefined;
+  }
+
+  private collectorFilter(collectorId?: string): string {
+    if (!collectorId) return '';
+    const value = encodeURIComponent(collectorId);
+    return this.isPostgrest ? `?collector_id=eq.${value}` : `?collector_id=${value}`;
+  }
+
+  // Safe to replay: the Idempotency-Key lets the server drop repeats, and PostgREST
+  // ignores rows whose id already exists (answering with an empty array)
+  private async insert<T extends { id?: string }>(resource: string, data: T): Promise<T> {
+    const result = await this.request<T | T[]>(this.isPostgrest ? `/${resource}?on_conflict=id` : `/${resource}`, {
+      method: 'POST',
+      headers: {
+        'Idempotency-Key': getIdempotencyKey(resource, data.id),
+        ...(this.isPostgrest ? { 'Prefer': 'return=representation,resolution=ignore-duplicates' } : {})
+      },
+      body: JSON.stringify(data)
+    });
+    const created = Array.isArray(result) ? result[0] : result;
+    return created || (await this.findOne<T>(resource, data.id)) || data;
+  }
+
+  private recordPath(resource: string, id: string): string {
+    const value = encodeURIComponent(id);
+    return this.isPostgrest ? `/${resource}?id=eq.${value}` : `/${resource}/${value}`;
+  }
+
+  private async findOne<T>(resource: string, id: string): Promise<T | null> {
+    try {
+      const result = await this.request<T | T[]>(this.recordPath(resource, id));
+      return Array.isArray(result) ? result[0] || null : result;
+    } catch (error) {
+      if (error instanceof RestRequestError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  private async patch<T>(resource: string, id: string, changes: unknown): Promise<T> {
+    const result = await this.request<T | T[]>(this.recordPath(resource, id), {
+      method: 'PATCH',
+      body: JSON.stringify(changes)
+    });
+    return Array.isArray(result) ? result[0] : result;
+  }
+
+  getCollectionLogs(collectorId?: string): Promise<CollectionLog[]> {
+    return this.request<CollectionLog[]>(`/collection_logs${this.collectorFilter(collectorId)}`);
+  }
+
+  getCollectionLog(id: string): Promise<CollectionLog | null> {
+    return this.findOne<CollectionLog>('collection_logs', id);
+  }
+
+  addCollectionLog(log: CollectionLog): Promise<CollectionLog> {
+    return this.insert('collection_logs', log);
+  }
+
+  updateCollectionLog(id: string, changes: Partial<CollectionLog>): Promise<CollectionLog> {
+    return this.patch<CollectionLog>('collection_logs', id, changes);
+  }
+
+  getDumpingReports(collectorId?: string): Promise<IllegalDumpingReport[]> {
+    return this.request<IllegalDumpingReport[]>(`/dumping_reports${this.collectorFilter(collectorId)}`);
+  }
+
+  getDumpingReport(id: string): Promise<IllegalDumpingReport | null> {
+    return this.findOne<IllegalDumpingReport>('dumping_reports', id);
+  }
+
+  addDumpingReport(report: IllegalDumpingReport): Promise<IllegalDumpingReport> {
+    return this.insert('dumping_reports', report);
+  }
+
+  updateDumpingReport(id: string, changes: Partial<IllegalDumpingReport>): Promise<IllegalDumpingReport> {
+    return this.patch<IllegalDumpingReport>('dumping_reports', id, changes);
+  }
+
+  // Photos travel inline as photo_base64 over REST
+  async getPhoto(photoId: string): Promise<Blob | null> {
+    return null;
+  }
+
+  getScanHistory(): Promise<ScanHistory[]> {
+    return this.request<ScanHistory[]>('/scan_history');
+  }
+
+  // Upsert: scans are re-saved when marked synced
+  async saveScan(scan: ScanHistory): Promise<void> {
+    if (this.isPostgrest) {
+      await this.request('/scan_history?on_conflict=id', {
+        method: 'POST',
+        headers: { 'Prefer': 'resolution=merge-duplicates' },
+        body: JSON.stringify(scan)
+      });
+      return;
+    }
+    await this.request(`/scan_history/${encodeURIComponent(scan.id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(scan)
+    });
+  }
+
+  async deleteScans(scanIds: string[]): Promise<void> {
+    if (scanIds.length === 0) return;
+    const ids = scanIds.map(encodeURIComponent).join(',');
+    await this.request(this.isPostgrest ? `/scan_history?id=in.(${ids})` : `/scan_history?ids=${ids}`, {
+      method: 'DELETE'
+    });
+  }
+
+  getHousehold(id: string): Promise<Household | null> {
+    return this.findOne<Household>('households', id);
+  }
+
+  getHouseholds(ward?: string): Promise<Household[]> {
+    if (!ward) return this.request<Household[]>('/households');
+    const value = encodeURIComponent(ward);
+    return this.request<Household[]>(this.isPostgrest ? `/households?ward=eq.${value}` : `/households?ward=${value}`);
+  }
+
+  // The server owns the directory; nothing to cache
+  async replaceWardHouseholds(ward: string, households: Household[]): Promise<void> {
+    return;
+  }
+
+  getShiftTracks(collectorId?: string): Promise<ShiftTrack[]> {
+    return this.request<ShiftTrack[]>(`/shift_tracks${this.collectorFilter(collectorId)}`);
+  }
+
+  getShiftTrack(id: string): Promise<ShiftTrack | null> {
+    return this.findOne<ShiftTrack>('shift_tracks', id);
+  }
+
+  addShiftTrack(track: ShiftTrack): Promise<ShiftTrack> {
+    return this.insert('shift_tracks', track);
+  }
+
+  updateShiftTrack(id: string, changes: Partial<ShiftTrack>): Promise<ShiftTrack> {
+    return this.patch<ShiftTrack>('shift_tracks', id, changes);
+  }
+}
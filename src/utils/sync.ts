@@ -0,0 +1,335 @@
+// Offline-first sync engine for SwachhSathi Collector App
+// Every local write is queued in the outbox and pushed to the server when connectivity allows.
+// Failed pushes back off exponentially; a record is marked synced once the server acknowledges it.
+
+import { convertFileToBase64, type IllegalDumpingReport } from './api';
+import type { CollectorDataStore, OutboxEntry, OutboxKind, OutboxStore } from './dataStore';
+import { RestDataStore } from './stores/restStore';
+
+export interface SyncState {
+  pending: number;
+  isSyncing: boolean;
+  isOnline: boolean;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+export interface SyncOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_SYNC_OPTIONS: SyncOptions = {
+  baseDelayMs: 2000, // First retry after ~2s
+  maxDelayMs: 5 * 60 * 1000 // Never wait more than 5 minutes between attempts
+};
+
+type SyncListener = (state: SyncState) => void;
+
+const SYNC_STATE_KEY = 'sync_state';
+
+// Server the outbox is pushed to (see .env.example); null disables syncing
+export const getSyncServer = (): CollectorDataStore | null => {
+  const env = import.meta.env;
+  if (!env.VITE_SYNC_URL) return null;
+  return new RestDataStore({ baseUrl: env.VITE_SYNC_URL, apiKey: env.VITE_API_KEY });
+};
+
+// Exponential backoff with up to 20% jitter so devices don't retry in lockstep
+export const getRetryDelay = (attempts: number, options: SyncOptions = DEFAULT_SYNC_OPTIONS): number => {
+  const delay = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, Math.max(0, attempts - 1)));
+  return Math.round(delay * (1 + Math.random() * 0.2));
+};
+
+export class SyncEngine {
+  private listeners = new Set<SyncListener>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<void> | null = null;
+  private started = false;
+  private failedRuns = 0; // Runs in a row that failed outright, for their backoff
+  private state: SyncState;
+
+  constructor(
+    private local: CollectorDataStore & OutboxStore,
+    private remote: CollectorDataStore,
+    private options: SyncOptions = DEFAULT_SYNC_OPTIONS
+  ) {
+    const stored = localStorage.getItem(SYNC_STATE_KEY);
+    const persisted = stored ? JSON.parse(stored) : {};
+    this.state = {
+      pending: 0,
+      isSyncing: false,
+      isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+      lastSuccessAt: persisted.lastSuccessAt || null,
+      lastError: persisted.lastError || null,
+      lastErrorAt: persisted.lastErrorAt || null
+    };
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+    this.syncNow();
+  }
+
+  stop(): void {
+    this.started = false;
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    this.clearTimer();
+  }
+
+  getState(): SyncState {
+    return this.state;
+  }
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async enqueue(kind: OutboxKind, recordId: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.local.saveOutboxEntry({
+      id: `${kind}_${recordId}`,
+      kind,
+      record_id: recordId,
+      created_at: now,
+      attempts: 0,
+      next_attempt_at: now
+    });
+    await this.refreshPending();
+    if (this.started) {
+      this.syncNow();
+    }
+  }
+
+  // Push everything that is due; pass force to ignore backoff (e.g. a manual "Sync now")
+  syncNow(force = false): Promise<void> {
+    if (!this.running) {
+      this.running = this.run(force).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private handleOnline = () => {
+    this.setState({ isOnline: true });
+    this.syncNow(true);
+  };
+
+  private handleOffline = () => {
+    this.setState({ isOnline: false });
+    this.clearTimer();
+  };
+
+  // Never rejects: a run that fails outright (e.g. IndexedDB blocked or out of space) is recorded
+  // as the last error and tried again after a backoff
+  private async run(force: boolean): Promise<void> {
+    this.clearTimer();
+    try {
+      const outbox = await this.local.getOutbox();
+      this.setState({ pending: outbox.length });
+
+      if (!this.state.isOnline) return;
+
+      const now = Date.now();
+      const due = outbox
+        .filter(entry => force || new Date(entry.next_attempt_at).getTime() <= now)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+      if (due.length > 0) {
+        this.setState({ isSyncing: true });
+        for (const entry of due) {
+          await this.push(entry);
+        }
+        this.setState({ isSyncing: false });
+      }
+
+      await this.pullReportStatuses();
+      await this.refreshPending();
+      this.failedRuns = 0;
+      await this.scheduleNext();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.failedRuns += 1;
+      this.setState({ isSyncing: false, lastError: message, lastErrorAt: new Date().toISOString() });
+      this.scheduleAt(Date.now() + getRetryDelay(this.failedRuns, this.options));
+    }
+  }
+
+  // Bring back review and cleanup progress, and confirmations, made on other devices
+  private async pullReportStatuses(): Promise<void> {
+    try {
+      const outbox = await this.local.getOutbox();
+      const unpushed = new Set(outbox.map(entry => entry.record_id));
+      const reports = (await this.local.getDumpingReports())
+        .filter(report => report.synced && !unpushed.has(report.id));
+      if (reports.length === 0) return;
+
+      const collectorIds = Array.from(new Set(reports.map(report => report.collector_id)));
+      for (const collectorId of collectorIds) {
+        const remote = new Map((await this.remote.getDumpingReports(collectorId)).map(report => [report.id, report]));
+        for (const report of reports.filter(r => r.collector_id === collectorId)) {
+          const latest = remote.get(report.id);
+          if (latest && (latest.status_history?.length || 0) > (report.status_history?.length || 0)) {
+            await this.local.updateDumpingReport(report.id, {
+              status: latest.status,
+              status_history: latest.status_history,
+              assigned_crew: latest.assigned_crew,
+              ...(latest.after_photo_base64 ? { after_photo_base64: latest.after_photo_base64 } : {})
+            });
+          }
+          if (latest && (latest.confirmations?.length || 0) > (report.confirmations?.length || 0)) {
+            await this.local.updateDumpingReport(report.id, { confirmations: latest.confirmations });
+          }
+        }
+      }
+      this.setState({ lastSuccessAt: new Date().toISOString() });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.setState({ lastError: message, lastErrorAt: new Date().toISOString() });
+    }
+  }
+
+  private async push(entry: OutboxEntry): Promise<void> {
+    try {
+      if (entry.kind === 'collection_log') {
+        const log = await this.local.getCollectionLog(entry.record_id);
+        if (log) {
+          const { synced, photo_id, ...payload } = log;
+          if (photo_id && !payload.photo_base64) {
+            payload.photo_base64 = await this.loadPhoto(photo_id);
+          }
+          await this.remote.addCollectionLog(payload);
+          await this.local.updateCollectionLog(entry.record_id, { synced: true });
+        }
+      } else if (entry.kind === 'report_status') {
+        const report = await this.local.getDumpingReport(entry.record_id);
+        if (report) {
+          await this.remote.updateDumpingReport(entry.record_id, await this.getLifecycleChanges(report));
+        }
+      } else if (entry.kind === 'report_confirmation') {
+        const report = await this.local.getDumpingReport(entry.record_id);
+        if (report) {
+          await this.remote.updateDumpingReport(entry.record_id, {
+            confirmations: report.confirmations,
+            photos_base64: await this.loadReportPhotos(report),
+            photo_metadata: report.photo_metadata
+          });
+        }
+      } else if (entry.kind === 'shift_track') {
+        const track = await this.local.getShiftTrack(entry.record_id);
+        if (track) {
+          const { synced, ...payload } = track;
+          await this.remote.addShiftTrack(payload);
+          await this.local.updateShiftTrack(entry.record_id, { synced: true });
+        }
+      } else {
+        const report = await this.local.getDumpingReport(entry.record_id);
+        if (report) {
+          const { synced, photo_id, photo_ids, after_photo_id, ...payload } = report;
+          if (photo_id && !payload.photo_base64) {
+            payload.photo_base64 = await this.loadPhoto(photo_id);
+          }
+          if (photo_ids?.length) {
+            payload.photos_base64 = await this.loadReportPhotos(report);
+          }
+          if (after_photo_id && !payload.after_photo_base64) {
+            payload.after_photo_base64 = await this.loadPhoto(after_photo_id);
+          }
+          await this.remote.addDumpingReport(payload);
+          await this.local.updateDumpingReport(entry.record_id, { synced: true });
+        }
+      }
+
+      await this.local.deleteOutboxEntry(entry.id);
+      this.setState({ lastSuccessAt: new Date().toISOString(), lastError: null });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const attempts = entry.attempts + 1;
+      await this.local.saveOutboxEntry({
+        ...entry,
+        attempts,
+        last_error: message,
+        next_attempt_at: new Date(Date.now() + getRetryDelay(attempts, this.options)).toISOString()
+      });
+      this.setState({ lastError: message, lastErrorAt: new Date().toISOString() });
+    }
+  }
+
+  // Status, history, crew and after photo: the fields a lifecycle step changes
+  private async getLifecycleChanges(report: IllegalDumpingReport): Promise<Partial<IllegalDumpingReport>> {
+    const changes: Partial<IllegalDumpingReport> = {
+      status: report.status,
+      status_history: report.status_history,
+      assigned_crew: report.assigned_crew
+    };
+    const afterPhoto = report.after_photo_base64
+      || (report.after_photo_id ? await this.loadPhoto(report.after_photo_id) : undefined);
+    if (afterPhoto) {
+      changes.after_photo_base64 = afterPhoto;
+    }
+    return changes;
+  }
+
+  // Stored photos first, then any still inline, in the order they were added
+  private async loadReportPhotos(report: IllegalDumpingReport): Promise<string[]> {
+    const stored = await Promise.all((report.photo_ids || []).map(id => this.loadPhoto(id)));
+    return [...stored.filter(Boolean), ...(report.photos_base64 || [])];
+  }
+
+  // Photos travel inline when pushed to the server
+  private async loadPhoto(photoId: string): Promise<string | undefined> {
+    const blob = await this.local.getPhoto(photoId);
+    return blob ? convertFileToBase64(blob) : undefined;
+  }
+
+  private async scheduleNext(): Promise<void> {
+    if (!this.started || !this.state.isOnline) return;
+
+    const outbox = await this.local.getOutbox();
+    if (outbox.length === 0) return;
+
+    this.scheduleAt(Math.min(...outbox.map(entry => new Date(entry.next_attempt_at).getTime())));
+  }
+
+  private scheduleAt(time: number): void {
+    if (!this.started || !this.state.isOnline) return;
+    this.clearTimer();
+    this.timer = setTimeout(() => this.syncNow(), Math.max(0, time - Date.now()));
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async refreshPending(): Promise<void> {
+    const outbox = await this.local.getOutbox();
+    this.setState({ pending: outbox.length });
+  }
+
+  private setState(changes: Partial<SyncState>): void {
+    this.state = { ...this.state, ...changes };
+    try {
+      localStorage.setItem(SYNC_STATE_KEY, JSON.stringify({
+        lastSuccessAt: this.state.lastSuccessAt,
+        lastError: this.state.lastError,
+        lastErrorAt: this.state.lastErrorAt
+      }));
+    } catch (error) {
+      // A full localStorage only costs the persisted status; listeners still get the update
+      console.warn('Could not persist sync state:', error);
+    }
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
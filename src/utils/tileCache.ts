@@ -0,0 +1,297 @@
+// Offline map tiles for SwachhSathi Collector App
+// Tiles for the collector's ward are downloaded ahead of time into their own IndexedDB database,
+// and the map reads them from there before trying the network. The cache belongs to one ward and
+// one tile source; switching either empties it.
+
+import { promisifyRequest, transactionDone } from './stores/indexedDbStore';
+
+export interface TileCoord {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export interface TileBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// What the cache currently holds, kept in localStorage so it can be read synchronously
+export interface TileCacheInfo {
+  ward: string;
+  source: string; // Tile URL template the tiles were downloaded from
+  bounds?: TileBounds;
+  min_zoom?: number;
+  max_zoom?: number;
+  updated_at?: string;
+}
+
+export interface TileCacheUsage {
+  tileCount: number;
+  bytes: number;
+}
+
+export interface TileDownloadProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+export interface TileDownloadOptions {
+  onProgress?: (progress: TileDownloadProgress) => void;
+  signal?: AbortSignal;
+}
+
+interface StoredTile {
+  key: string;
+  blob: Blob;
+  size: number;
+  cached_at: string;
+}
+
+const DB_NAME = 'swachhsathi-tiles';
+const DB_VERSION = 1;
+const STORE = 'tiles';
+const INFO_KEY = 'tile_cache_info';
+const DOWNLOAD_CONCURRENCY = 4;
+const SUBDOMAINS = ['a', 'b', 'c'];
+
+// Keeps one download to a ward-sized area
+export const MAX_TILE_DOWNLOAD = 5000;
+
+// Tile servers whose usage policy forbids bulk downloading, such as the default openstreetmap.org
+const NO_BULK_DOWNLOAD_HOSTS = ['openstreetmap.org'];
+
+export const BULK_DOWNLOAD_BLOCKED_MESSAGE =
+  'openstreetmap.org does not allow bulk downloads. Set VITE_MAP_TILE_URL to your own tile server to save areas.';
+
+// Web Mercator stops short of the poles
+const MAX_LATITUDE = 85.0511;
+
+const tileKey = ({ z, x, y }: TileCoord): string => `${z}/${x}/${y}`;
+
+const lngToTileX = (lng: number, z: number): number =>
+  Math.floor(((lng + 180) / 360) * 2 ** z);
+
+const latToTileY = (lat: number, z: number): number => {
+  const rad = (Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat)) * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** z);
+};
+
+const clampTile = (value: number, z: number): number => Math.max(0, Math.min(2 ** z - 1, value));
+
+// Every tile covering the bounds at each zoom from minZoom to maxZoom
+export const listTiles = (bounds: TileBounds, minZoom: number, maxZoom: number): TileCoord[] => {
+  const tiles: TileCoord[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const minX = clampTile(lngToTileX(bounds.west, z), z);
+    const maxX = clampTile(lngToTileX(bounds.east, z), z);
+    const minY = clampTile(latToTileY(bounds.north, z), z);
+    const maxY = clampTile(latToTileY(bounds.south, z), z);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        tiles.push({ z, x, y });
+      }
+    }
+  }
+  return tiles;
+};
+
+export const countTiles = (bounds: TileBounds, minZoom: number, maxZoom: number): number => {
+  let count = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const width = clampTile(lngToTileX(bounds.east, z), z) - clampTile(lngToTileX(bounds.west, z), z) + 1;
+    const height = clampTile(latToTileY(bounds.south, z), z) - clampTile(latToTileY(bounds.north, z), z) + 1;
+    count += width * height;
+  }
+  return count;
+};
+
+// Fill a Leaflet URL template ({s} cycles through the usual a/b/c subdomains)
+export const getTileUrl = (template: string, coord: TileCoord): string => {
+  const subdomain = SUBDOMAINS[Math.abs(coord.x + coord.y) % SUBDOMAINS.length];
+  return template
+    .replace('{s}', subdomain)
+    .replace('{z}', String(coord.z))
+    .replace('{x}', String(coord.x))
+    .replace('{y}', String(coord.y))
+    .replace('{r}', '');
+};
+
+// Whether areas may be downloaded from this URL template; one that can't be parsed is refused
+export const isBulkDownloadAllowed = (template: string): boolean => {
+  let hostname: string;
+  try {
+    hostname = new URL(template.replace(/\{[^}]*\}/g, 'a'), window.location.href).hostname;
+  } catch {
+    return false;
+  }
+  return !NO_BULK_DOWNLOAD_HOSTS.some(host => hostname === host || hostname.endsWith(`.${host}`));
+};
+
+export class TileCache {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  private static db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: 'key' });
+        }
+      };
+      this.dbPromise = promisifyRequest(request).catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  static getInfo(): TileCacheInfo | null {
+    const stored = localStorage.getItem(INFO_KEY);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  private static setInfo(info: TileCacheInfo): void {
+    localStorage.setItem(INFO_KEY, JSON.stringify(info));
+  }
+
+  // Cached tile for the map, or null to fetch it live
+  static async getTile(coord: TileCoord, source: string): Promise<Blob | null> {
+    if (!this.isSupported() || this.getInfo()?.source !== source) return null;
+
+    const db = await this.db();
+    const stored = await promisifyRequest<StoredTile | undefined>(
+      db.transaction(STORE).objectStore(STORE).get(tileKey(coord))
+    );
+    return stored?.blob || null;
+  }
+
+  static async getUsage(): Promise<TileCacheUsage> {
+    if (!this.isSupported()) return { tileCount: 0, bytes: 0 };
+
+    // A cursor rather than getAll, so thousands of tiles aren't held at once
+    const db = await this.db();
+    const usage: TileCacheUsage = { tileCount: 0, bytes: 0 };
+    await new Promise<void>((resolve, reject) => {
+      const request = db.transaction(STORE).objectStore(STORE).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        usage.tileCount++;
+        usage.bytes += (cursor.value as StoredTile).size;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+    return usage;
+  }
+
+  static async clear(): Promise<void> {
+    localStorage.removeItem(INFO_KEY);
+    if (!this.isSupported()) return;
+
+    const db = await this.db();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    await transactionDone(tx);
+  }
+
+  // Drop the cache when it was filled for another ward (or, if given, another tile source)
+  static async evictIfStale(ward: string, source?: string): Promise<boolean> {
+    const info = this.getInfo();
+    if (!info || (info.ward === ward && (!source || info.source === source))) return false;
+    await this.clear();
+    return true;
+  }
+
+  // Download the missing tiles for an area of the ward; tiles that fail are left to the network
+  static async download(
+    ward: string,
+    source: string,
+    bounds: TileBounds,
+    minZoom: number,
+    maxZoom: number,
+    options: TileDownloadOptions = {}
+  ): Promise<TileDownloadProgress> {
+    if (!isBulkDownloadAllowed(source)) {
+      throw new Error(BULK_DOWNLOAD_BLOCKED_MESSAGE);
+    }
+    // Counted before listing, so a huge area isn't built up in memory first
+    const count = countTiles(bounds, minZoom, maxZoom);
+    if (count > MAX_TILE_DOWNLOAD) {
+      throw new Error(`That is ${count} tiles; zoom in or lower the maximum zoom (limit ${MAX_TILE_DOWNLOAD})`);
+    }
+    const tiles = listTiles(bounds, minZoom, maxZoom);
+
+    await this.evictIfStale(ward, source);
+    const previous = this.getInfo();
+    const info: TileCacheInfo = {
+      ward,
+      source,
+      bounds,
+      min_zoom: previous?.min_zoom === undefined ? minZoom : Math.min(previous.min_zoom, minZoom),
+      max_zoom: previous?.max_zoom === undefined ? maxZoom : Math.max(previous.max_zoom, maxZoom),
+      updated_at: previous?.updated_at
+    };
+    this.setInfo(info);
+
+    const db = await this.db();
+    const existing = new Set(await promisifyRequest(db.transaction(STORE).objectStore(STORE).getAllKeys()));
+    const missing = tiles.filter(tile => !existing.has(tileKey(tile)));
+    const progress: TileDownloadProgress = { done: tiles.length - missing.length, total: tiles.length, failed: 0 };
+    options.onProgress?.({ ...progress });
+
+    let next = 0;
+    let quotaError: DOMException | null = null;
+    const worker = async () => {
+      while (next < missing.length && !options.signal?.aborted && !quotaError) {
+        const tile = missing[next++];
+        try {
+          const response = await fetch(getTileUrl(source, tile), { signal: options.signal });
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          const blob = await response.blob();
+          const stored: StoredTile = {
+            key: tileKey(tile),
+            blob,
+            size: blob.size,
+            cached_at: new Date().toISOString()
+          };
+          const tx = db.transaction(STORE, 'readwrite');
+          tx.objectStore(STORE).put(stored);
+          await transactionDone(tx);
+        } catch (error) {
+          if (options.signal?.aborted) break;
+          // Storage full: stop rather than fail every remaining tile
+          if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+            quotaError = error;
+            break;
+          }
+          progress.failed++;
+        }
+        progress.done++;
+        options.onProgress?.({ ...progress });
+      }
+    };
+    await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+
+    // Unless the cache was cleared while downloading
+    if (this.getInfo()) {
+      this.setInfo({ ...info, updated_at: new Date().toISOString() });
+    }
+    if (quotaError) {
+      throw new Error('The device ran out of storage; the tiles downloaded so far are kept');
+    }
+    return progress;
+  }
+}
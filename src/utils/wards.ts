@@ -0,0 +1,193 @@
+// Ward boundaries for SwachhSathi Collector App
+// Boundaries are GeoJSON polygons downloaded from VITE_WARD_BOUNDARIES_URL and cached on the device
+// in IndexedDB, so scans and reports can be placed in a ward and checked against the collector's
+// assigned one offline. A parsed copy is kept in memory for the checks, which run during render.
+
+import { promisifyRequest, transactionDone } from './stores/indexedDbStore';
+
+// [longitude, latitude], as in GeoJSON
+type Position = number[];
+type Ring = Position[];
+
+export type WardGeometry =
+  | { type: 'Polygon'; coordinates: Ring[] }
+  | { type: 'MultiPolygon'; coordinates: Ring[][] };
+
+export interface WardBoundary {
+  id: string;
+  name?: string;
+  geometry: WardGeometry;
+}
+
+export interface WardCheck {
+  wardId: string | null; // Ward containing the point, if any boundary does
+  assignedWard: string | null;
+  isOutside: boolean; // Only when the assigned ward's boundary is known and the point isn't in it
+}
+
+interface GeoJsonFeature {
+  id?: string | number;
+  properties?: Record<string, unknown> | null;
+  geometry?: { type: string; coordinates: unknown } | null;
+}
+
+// The whole download is one record
+interface StoredBoundaries {
+  key: string;
+  boundaries: WardBoundary[];
+  synced_at: string;
+}
+
+const DB_NAME = 'swachhsathi-wards';
+const DB_VERSION = 1;
+const STORE = 'boundaries';
+const RECORD_KEY = 'current';
+
+// Geofencing is off until a boundaries URL is configured
+export const getWardBoundariesUrl = (): string | null =>
+  import.meta.env.VITE_WARD_BOUNDARIES_URL || null;
+
+// Ray casting; points exactly on an edge may land either side
+const isInRing = (lng: number, lat: number, ring: Ring): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Inside the outer ring and outside every hole
+const isInPolygon = (lng: number, lat: number, rings: Ring[]): boolean =>
+  rings.length > 0 &&
+  isInRing(lng, lat, rings[0]) &&
+  !rings.slice(1).some(hole => isInRing(lng, lat, hole));
+
+export const isInWard = (latitude: number, longitude: number, ward: WardBoundary): boolean => {
+  const { geometry } = ward;
+  return geometry.type === 'Polygon'
+    ? isInPolygon(longitude, latitude, geometry.coordinates)
+    : geometry.coordinates.some(polygon => isInPolygon(longitude, latitude, polygon));
+};
+
+// The ward id is read from properties.ward (as on households), then properties.id, then the feature id
+export const parseWardBoundaries = (geojson: unknown): WardBoundary[] => {
+  const features = (geojson as { features?: GeoJsonFeature[] })?.features;
+  if (!Array.isArray(features)) {
+    throw new Error('Ward boundaries must be a GeoJSON FeatureCollection');
+  }
+
+  return features.flatMap((feature): WardBoundary[] => {
+    const type = feature.geometry?.type;
+    const id = feature.properties?.ward ?? feature.properties?.id ?? feature.id;
+    if ((type !== 'Polygon' && type !== 'MultiPolygon') || id === undefined || id === null) return [];
+    const name = feature.properties?.name;
+    return [{
+      id: String(id),
+      ...(typeof name === 'string' ? { name } : {}),
+      geometry: feature.geometry as WardGeometry
+    }];
+  });
+};
+
+export class WardBoundaries {
+  private static boundaries: WardBoundary[] = [];
+  private static syncedAt: string | null = null;
+  private static loadPromise: Promise<void> | null = null;
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  private static db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: 'key' });
+        }
+      };
+      this.dbPromise = promisifyRequest(request).catch(error => {
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // The in-memory copy; empty until load() or sync() has run
+  static getBoundaries(): WardBoundary[] {
+    return this.boundaries;
+  }
+
+  static getLastSyncedAt(): string | null {
+    return this.syncedAt;
+  }
+
+  // Read the cached boundaries into memory once per session
+  static load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readStored().catch(error => {
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  private static async readStored(): Promise<void> {
+    if (typeof indexedDB === 'undefined') return;
+    const db = await this.db();
+    const stored = await promisifyRequest(
+      db.transaction(STORE, 'readonly').objectStore(STORE).get(RECORD_KEY) as IDBRequest<StoredBoundaries | undefined>
+    );
+    // A sync may have finished first; its copy is newer
+    if (stored && !this.syncedAt) {
+      this.boundaries = stored.boundaries;
+      this.syncedAt = stored.synced_at;
+    }
+  }
+
+  // When the device is out of space the boundaries are only kept for this session
+  private static async store(): Promise<void> {
+    if (typeof indexedDB === 'undefined') return;
+    const record: StoredBoundaries = { key: RECORD_KEY, boundaries: this.boundaries, synced_at: this.syncedAt };
+    try {
+      const db = await this.db();
+      const tx = db.transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).put(record);
+      await transactionDone(tx);
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'QuotaExceededError')) throw error;
+      console.warn('No space to cache ward boundaries on this device:', error);
+    }
+  }
+
+  // Download the boundaries into the device cache; the cached copy stays in use if this fails
+  static async sync(): Promise<number> {
+    const url = getWardBoundariesUrl();
+    if (!url) return 0;
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Ward boundaries request failed: ${response.status}`);
+    }
+
+    this.boundaries = parseWardBoundaries(await response.json());
+    this.syncedAt = new Date().toISOString();
+    await this.store();
+    return this.boundaries.length;
+  }
+
+  // Where boundaries overlap, the assigned ward wins
+  static check(latitude: number, longitude: number, assignedWard?: string): WardCheck {
+    const boundaries = this.getBoundaries();
+    const containing = boundaries.filter(ward => isInWard(latitude, longitude, ward));
+    const isInAssigned = containing.some(ward => ward.id === assignedWard);
+    return {
+      wardId: isInAssigned ? assignedWard : containing[0]?.id || null,
+      assignedWard: assignedWard || null,
+      isOutside: !isInAssigned && !!assignedWard && boundaries.some(ward => ward.id === assignedWard)
+    };
+  }
+}
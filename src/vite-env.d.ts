@@ -1 +1,28 @@
 /// <reference types="vite/client" />
+/// <reference types="vite-plugin-pwa/react" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_STORE?: string;
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_API_KEY?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_SYNC_URL?: string;
+  readonly VITE_SUPERVISOR_IDS?: string;
+  readonly VITE_QR_PUBLIC_KEYS?: string;
+  readonly VITE_ALLOW_UNSIGNED_QR?: string;
+  readonly VITE_COLLECTION_RULES?: string;
+  readonly VITE_PHOTO_MAX_DIMENSION?: string;
+  readonly VITE_PHOTO_QUALITY?: string;
+  readonly VITE_MAX_REPORT_PHOTOS?: string;
+  readonly VITE_DUPLICATE_REPORT_RADIUS_M?: string;
+  readonly VITE_LOCATION_MAX_ACCURACY_M?: string;
+  readonly VITE_MAP_TILE_URL?: string;
+  readonly VITE_MAP_ATTRIBUTION?: string;
+  readonly VITE_MAP_MAX_ZOOM?: string;
+  readonly VITE_WARD_BOUNDARIES_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,15 +1,64 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import { VitePWA } from "vite-plugin-pwa";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Household codes can't be verified without ULB keys, so a production build stops without them
+const requireQrPublicKeys = (): Plugin => ({
+  name: "require-qr-public-keys",
+  apply: (_, { command, mode }) => command === "build" && mode === "production",
+  configResolved(config) {
+    let keys: unknown = null;
+    try {
+      keys = JSON.parse(config.env.VITE_QR_PUBLIC_KEYS || "[]");
+    } catch {
+      // Reported below
+    }
+    if (!Array.isArray(keys) || keys.length === 0) {
+      throw new Error("Set VITE_QR_PUBLIC_KEYS to a JSON array of ULB public keys for a production build (see .env.example)");
+    }
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "127.0.0.1",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [
+    react(),
+    mode === "development" && componentTagger(),
+    requireQrPublicKeys(),
+    // Installable app whose shell loads without signal; see AppUpdatePrompt for updates
+    VitePWA({
+      registerType: "prompt",
+      includeAssets: ["favicon.ico", "robots.txt", "pwa-icon.svg", "apple-touch-icon-180x180.png"],
+      manifest: {
+        name: "SwachhSathi Collector",
+        short_name: "SwachhSathi",
+        description: "Household waste collection and illegal dumping reports for field collectors",
+        start_url: "/dashboard",
+        scope: "/",
+        display: "standalone",
+        orientation: "portrait",
+        theme_color: "#16a34a",
+        background_color: "#ffffff",
+        icons: [
+          { src: "pwa-192x192.png", sizes: "192x192", type: "image/png" },
+          { src: "pwa-512x512.png", sizes: "512x512", type: "image/png" },
+          { src: "pwa-512x512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+        ],
+      },
+      workbox: {
+        globPatterns: ["**/*.{js,css,html,ico,png,svg,webmanifest}"],
+        // Every route is rendered by the SPA, so deep links open offline too
+        navigateFallback: "/index.html",
+        cleanupOutdatedCaches: true,
+      },
+    }),
+  ].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),